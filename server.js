@@ -1,14 +1,19 @@
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import connectDB from './server/config/db.js';
-import localDB from './server/config/localDB.js';
-import claudeService from './server/services/claudeService.js';
+import repository from './server/repositories/index.js';
+import { protect } from './server/middleware/authMiddleware.js';
+import { requireArtifactOwner, requireCanvasOwner } from './server/middleware/ownershipMiddleware.js';
+import { pickGenerationSettings, validateGenerationSettings } from './server/services/generationSettings.js';
 import nodeRoutes from './server/routes/nodeRoutes.js';
 import summaryRoutes from './server/routes/summaryRoutes.js';
 import claudeRoutes from './server/routes/claudeRoutes.js';
+import authRoutes from './server/routes/authRoutes.js';
+import usageRoutes from './server/routes/usageRoutes.js';
 
 // Load environment variables
 dotenv.config();
@@ -22,7 +27,7 @@ const initializeDB = async () => {
   if (process.env.NODE_ENV === 'production') {
     await connectDB();
   } else {
-    console.log('Using local in-memory database for development');
+    console.log(`Using local database for development (${process.env.LOCAL_DB_DRIVER || 'memory'} storage)`);
   }
 };
 
@@ -50,7 +55,7 @@ const corsOptions = {
       callback(new Error('Not allowed by CORS'));
     }
   },
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
   preflightContinue: false,
@@ -63,24 +68,28 @@ app.use(cors(corsOptions));
 // Handle preflight requests
 app.options('*', cors(corsOptions));
 
-// Parse JSON bodies
-app.use(express.json());
+// Parse JSON bodies (full canvas graphs are saved in a single request)
+app.use(express.json({ limit: '5mb' }));
 
-// Logging middleware
+// Parse cookies (the session token is stored in an httpOnly cookie)
+app.use(cookieParser());
+
+// Logging middleware; headers are left out since they carry the session cookie and bearer token
 app.use((req, res, next) => {
   console.log('Request:', {
     method: req.method,
     url: req.url,
-    origin: req.headers.origin,
-    headers: req.headers
+    origin: req.headers.origin
   });
   next();
 });
 
 // API routes
+app.use('/api/auth', authRoutes);
 app.use('/api/node', nodeRoutes);
 app.use('/api/summary', summaryRoutes);
 app.use('/api/claude', claudeRoutes);
+app.use('/api/usage', usageRoutes);
 
 // Root route
 app.get('/', (req, res) => {
@@ -89,13 +98,19 @@ app.get('/', (req, res) => {
     version: '1.0.0',
     endpoints: {
       test: '/api/test',
+      auth: '/api/auth',
       claudeQuery: '/api/claude/query',
       claudeFollowUp: '/api/claude/follow-up',
       claudeSynthesize: '/api/claude/synthesize',
+      claudeQueryStream: '/api/claude/query/stream',
+      claudeFollowUpStream: '/api/claude/follow-up/stream',
+      claudeTopicStream: '/api/claude/topic/stream',
+      claudeTopics: '/api/claude/topics',
       canvas: '/api/canvas',
       synthesis: '/api/synthesis',
       node: '/api/node',
-      summary: '/api/summary'
+      summary: '/api/summary',
+      usage: '/api/usage'
     }
   });
 });
@@ -105,242 +120,294 @@ app.get('/api/test', (req, res) => {
   res.json({ message: 'API is working!' });
 });
 
-// Claude API routes
-app.post('/api/claude/query', async (req, res) => {
+// Canvas routes
+app.post('/api/canvas', protect, async (req, res) => {
   try {
-    const { query } = req.body;
+    const { title, nodes, edges, initialQuery, generationSettings } = req.body;
     
-    if (!query) {
+    if (!title || !initialQuery) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Query is required' 
+        error: 'Title and initialQuery are required' 
       });
     }
     
-    const response = await claudeService.processInitialQuery(query);
+    const settingsErrors = validateGenerationSettings(generationSettings);
+    if (settingsErrors.length > 0) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid generation settings: ${settingsErrors.join('; ')}` 
+      });
+    }
     
-    res.json({
+    const canvas = await repository.createCanvas({
+      title,
+      userId: req.user._id,
+      nodes: nodes || [],
+      edges: edges || [],
+      initialQuery,
+      generationSettings: pickGenerationSettings(generationSettings)
+    });
+    
+    res.status(201).json({
       success: true,
-      data: response
+      data: canvas
     });
   } catch (error) {
-    console.error('Error processing query:', error);
+    console.error('Error creating canvas:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to process query'
+      error: error.message || 'Failed to create canvas'
     });
   }
 });
 
-app.post('/api/claude/follow-up', async (req, res) => {
+app.get('/api/canvas/:id', protect, requireCanvasOwner(req => req.params.id), (req, res) => {
+  res.json({
+    success: true,
+    data: req.canvas
+  });
+});
+
+// List the signed-in user's canvases
+app.get('/api/canvas', protect, async (req, res) => {
   try {
-    const { query, context } = req.body;
-    
-    if (!query) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Query is required' 
-      });
-    }
-    
-    if (!context || !Array.isArray(context)) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Context must be an array' 
-      });
-    }
-    
-    const response = await claudeService.processFollowUpQuery(query, context);
+    const canvases = await repository.getCanvasesByUserId(req.user._id);
     
     res.json({
       success: true,
-      data: response
+      data: canvases
     });
   } catch (error) {
-    console.error('Error processing follow-up query:', error);
+    console.error('Error fetching canvases:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to process follow-up query'
+      error: error.message || 'Failed to fetch canvases'
     });
   }
 });
 
-app.post('/api/claude/synthesize', async (req, res) => {
+app.get('/api/canvas/user/:userId', protect, async (req, res) => {
   try {
-    const { contexts, customPrompt } = req.body;
-    
-    if (!contexts || !Array.isArray(contexts) || contexts.length === 0) {
-      return res.status(400).json({ 
+    // Users can only list their own canvases
+    if (req.params.userId !== req.user._id.toString()) {
+      return res.status(403).json({ 
         success: false, 
-        error: 'At least one context is required' 
+        error: 'Not authorized to view these canvases' 
       });
     }
     
-    const response = await claudeService.synthesize(contexts, customPrompt);
+    const canvases = await repository.getCanvasesByUserId(req.params.userId);
     
     res.json({
       success: true,
-      data: response
+      data: canvases
     });
   } catch (error) {
-    console.error('Error synthesizing insights:', error);
+    console.error('Error fetching user canvases:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to synthesize insights'
+      error: error.message || 'Failed to fetch user canvases'
     });
   }
 });
 
-// Canvas routes (using localDB for development)
-app.post('/api/canvas', async (req, res) => {
+app.put('/api/canvas/:id', protect, requireCanvasOwner(req => req.params.id), async (req, res) => {
   try {
-    const { title, userId, nodes, edges, initialQuery } = req.body;
+    const { title, nodes, edges, generationSettings } = req.body;
     
-    if (!title || !userId || !initialQuery) {
+    const settingsErrors = validateGenerationSettings(generationSettings);
+    if (settingsErrors.length > 0) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Title, userId, and initialQuery are required' 
+        error: `Invalid generation settings: ${settingsErrors.join('; ')}` 
       });
     }
     
-    const canvas = await localDB.createCanvas({
-      title,
-      userId,
-      nodes: nodes || [],
-      edges: edges || [],
-      initialQuery
+    const updatedCanvas = await repository.updateCanvas(req.params.id, {
+      ...(title && { title }),
+      ...(nodes && { nodes }),
+      ...(edges && { edges }),
+      // Settings are replaced as a whole, so cleared fields fall back to the defaults
+      ...(generationSettings && { generationSettings: pickGenerationSettings(generationSettings) })
     });
     
-    res.status(201).json({
+    if (!updatedCanvas) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Canvas not found' 
+      });
+    }
+    
+    res.json({
       success: true,
-      data: canvas
+      data: updatedCanvas
     });
   } catch (error) {
-    console.error('Error creating canvas:', error);
+    console.error('Error updating canvas:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to create canvas'
+      error: error.message || 'Failed to update canvas'
     });
   }
 });
 
-app.get('/api/canvas/:id', async (req, res) => {
+// Changes that make new content an artifact's current version, keeping its current content
+// and instructions as a revision
+const revisionChanges = (artifact, content, customPrompt) => ({
+  content,
+  customPrompt,
+  revisions: [
+    ...(artifact.revisions || []),
+    { content: artifact.content, customPrompt: artifact.customPrompt || '', createdAt: artifact.revisedAt || artifact.createdAt }
+  ],
+  revisedAt: new Date().toISOString()
+});
+
+// Synthesis artifact routes
+app.post('/api/synthesis', protect, requireCanvasOwner(req => req.body.mindmapId), async (req, res) => {
   try {
-    const canvas = await localDB.getCanvasById(req.params.id);
+    const { title, content, mindmapId, selectedNodes, customPrompt } = req.body;
     
-    if (!canvas) {
-      return res.status(404).json({ 
+    if (!title || !content || !mindmapId || !selectedNodes) {
+      return res.status(400).json({ 
         success: false, 
-        error: 'Canvas not found' 
+        error: 'Title, content, mindmapId, and selectedNodes are required' 
       });
     }
     
-    res.json({
+    if (!Array.isArray(selectedNodes) || !selectedNodes.every(nodeId => typeof nodeId === 'string')) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'selectedNodes must be an array of node IDs' 
+      });
+    }
+    
+    const artifact = await repository.createArtifact({
+      title,
+      content,
+      mindmapId,
+      userId: req.user._id,
+      selectedNodes,
+      customPrompt
+    });
+    
+    res.status(201).json({
       success: true,
-      data: canvas
+      data: artifact
     });
   } catch (error) {
-    console.error('Error fetching canvas:', error);
+    console.error('Error creating synthesis artifact:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to fetch canvas'
+      error: error.message || 'Failed to create synthesis artifact'
     });
   }
 });
 
-app.get('/api/canvas/user/:userId', async (req, res) => {
+app.get('/api/synthesis/mindmap/:mindmapId', protect, requireCanvasOwner(req => req.params.mindmapId), async (req, res) => {
   try {
-    const canvases = await localDB.getCanvasByUserId(req.params.userId);
+    const artifacts = await repository.getArtifactsByMindmapId(req.params.mindmapId);
     
     res.json({
       success: true,
-      data: canvases
+      data: artifacts
     });
   } catch (error) {
-    console.error('Error fetching user canvases:', error);
+    console.error('Error fetching synthesis artifacts:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to fetch user canvases'
+      error: error.message || 'Failed to fetch synthesis artifacts'
     });
   }
 });
 
-app.put('/api/canvas/:id', async (req, res) => {
+// Rename or edit a synthesis artifact; only its title and content can change, and edited
+// content is recorded as a revision like a re-run
+app.put('/api/synthesis/:id', protect, requireArtifactOwner(), async (req, res) => {
   try {
-    const { title, nodes, edges } = req.body;
+    const changes = {};
     
-    const updatedCanvas = await localDB.updateCanvas(req.params.id, {
-      ...(title && { title }),
-      ...(nodes && { nodes }),
-      ...(edges && { edges })
-    });
+    for (const field of ['title', 'content']) {
+      const value = req.body[field];
+      if (value === undefined) continue;
+      
+      if (typeof value !== 'string' || !value.trim()) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `${field} must be a non-empty string` 
+        });
+      }
+      changes[field] = field === 'title' ? value.trim() : value;
+    }
     
-    if (!updatedCanvas) {
-      return res.status(404).json({ 
-        success: false, 
-        error: 'Canvas not found' 
-      });
+    const { artifact: current } = req;
+    if (changes.content !== undefined && changes.content !== current.content) {
+      Object.assign(changes, revisionChanges(current, changes.content, current.customPrompt || ''));
     }
     
+    const artifact = await repository.updateArtifact(req.params.id, changes);
+    
     res.json({
       success: true,
-      data: updatedCanvas
+      data: artifact
     });
   } catch (error) {
-    console.error('Error updating canvas:', error);
+    console.error('Error updating synthesis artifact:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to update canvas'
+      error: error.message || 'Failed to update synthesis artifact'
     });
   }
 });
 
-// Synthesis artifact routes
-app.post('/api/synthesis', async (req, res) => {
+// Save the result of re-running an artifact's synthesis, keeping its current content as a revision
+app.post('/api/synthesis/:id/revisions', protect, requireArtifactOwner(), async (req, res) => {
   try {
-    const { title, content, mindmapId, selectedNodes, customPrompt } = req.body;
+    const { content, customPrompt = '' } = req.body;
     
-    if (!title || !content || !mindmapId || !selectedNodes) {
+    if (typeof content !== 'string' || !content.trim()) {
       return res.status(400).json({ 
         success: false, 
-        error: 'Title, content, mindmapId, and selectedNodes are required' 
+        error: 'content must be a non-empty string' 
       });
     }
     
-    const artifact = await localDB.createArtifact({
-      title,
-      content,
-      mindmapId,
-      selectedNodes,
-      customPrompt
-    });
+    if (typeof customPrompt !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'customPrompt must be a string' 
+      });
+    }
+    
+    const artifact = await repository.updateArtifact(req.params.id, revisionChanges(req.artifact, content, customPrompt));
     
     res.status(201).json({
       success: true,
       data: artifact
     });
   } catch (error) {
-    console.error('Error creating synthesis artifact:', error);
+    console.error('Error saving synthesis revision:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to create synthesis artifact'
+      error: error.message || 'Failed to save synthesis revision'
     });
   }
 });
 
-app.get('/api/synthesis/mindmap/:mindmapId', async (req, res) => {
+app.delete('/api/synthesis/:id', protect, requireArtifactOwner(), async (req, res) => {
   try {
-    const artifacts = await localDB.getArtifactsByMindmapId(req.params.mindmapId);
+    await repository.deleteArtifact(req.params.id);
     
     res.json({
       success: true,
-      data: artifacts
+      message: 'Synthesis artifact deleted successfully'
     });
   } catch (error) {
-    console.error('Error fetching synthesis artifacts:', error);
+    console.error('Error deleting synthesis artifact:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to fetch synthesis artifacts'
+      error: error.message || 'Failed to delete synthesis artifact'
     });
   }
 });
@@ -370,11 +437,13 @@ app.use((err, req, res, next) => {
   });
 });
 
-// Start server
+// Start server; tests start their own on a free port
 const PORT = process.env.PORT || 5000;
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
-});
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
+  });
+}
 
 // Export app for testing
 export default app; 
\ No newline at end of file
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Name of the cookie that carries the session token
+export const AUTH_COOKIE_NAME = 'mindmap_session';
+
+// How long a session stays valid
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+const resolveSecret = () => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+
+  // Development fallback: sessions stop being valid whenever the server restarts
+  console.warn('JWT_SECRET not found in environment variables. Using a random secret for this process.');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+const JWT_SECRET = resolveSecret();
+
+// Sign a session token for a user
+export const signSessionToken = (userId) =>
+  jwt.sign({ sub: userId.toString() }, JWT_SECRET, { expiresIn: SESSION_TTL_SECONDS });
+
+// Verify a session token and return the user ID it was issued for
+export const verifySessionToken = (token) => {
+  const payload = jwt.verify(token, JWT_SECRET);
+  return payload.sub;
+};
+
+// Options for the session cookie; not readable from scripts, and HTTPS-only in production
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  maxAge: SESSION_TTL_SECONDS * 1000,
+  path: '/'
+};
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+
+// File names inside the data directory
+const SNAPSHOT_FILE = 'snapshot.json';
+const JOURNAL_FILE = 'journal.jsonl';
+
+// Number of journal entries after which the journal is folded into the snapshot
+const COMPACT_THRESHOLD = 500;
+
+// Append-only JSON store used by LocalDB to keep development data on disk.
+// Every change is appended to a journal as one JSON line and flushed before the
+// call returns. The journal is periodically compacted into a snapshot, which is
+// written to a temp file and renamed into place so it is never half-written.
+class FileStore {
+  constructor(dataDir, collections) {
+    this.dataDir = dataDir;
+    this.collections = collections;
+    this.snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+    this.journalPath = path.join(dataDir, JOURNAL_FILE);
+    this.journalEntries = 0;
+  }
+
+  // Load the latest snapshot and replay the journal on top of it
+  load() {
+    fs.mkdirSync(this.dataDir, { recursive: true });
+
+    // A temp snapshot only survives if we crashed mid-compaction; the old
+    // snapshot and the journal still hold everything it contained
+    const tempPath = `${this.snapshotPath}.tmp`;
+    if (fs.existsSync(tempPath)) {
+      console.warn('Removing incomplete snapshot left by an interrupted compaction');
+      fs.unlinkSync(tempPath);
+    }
+
+    const state = {};
+    this.collections.forEach(collection => {
+      state[collection] = new Map();
+    });
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+      this.collections.forEach(collection => {
+        (snapshot[collection] || []).forEach(record => state[collection].set(record.id, record));
+      });
+    }
+
+    this.journalEntries = this.replayJournal(state);
+
+    console.log('FileStore loaded', {
+      dataDir: this.dataDir,
+      journalEntries: this.journalEntries,
+      ...Object.fromEntries(this.collections.map(collection => [collection, state[collection].size]))
+    });
+
+    return state;
+  }
+
+  // Apply journal entries in order, dropping a torn final line from a crash
+  replayJournal(state) {
+    if (!fs.existsSync(this.journalPath)) {
+      return 0;
+    }
+
+    const raw = fs.readFileSync(this.journalPath, 'utf8');
+    const lines = raw.split('\n');
+    let validLength = 0;
+    let applied = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      // An entry only counts as written once its newline made it to disk, so
+      // anything after the final newline is a torn write from a crash
+      if (i === lines.length - 1) {
+        if (line.trim()) {
+          console.warn('Discarding incomplete journal entry written before a crash');
+        }
+        break;
+      }
+
+      validLength += Buffer.byteLength(line, 'utf8') + 1;
+
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        this.apply(state, JSON.parse(line));
+        applied++;
+      } catch (parseError) {
+        console.error('Skipping corrupt journal entry', { line: i + 1, error: parseError.message });
+      }
+    }
+
+    // Cut off the torn tail so new entries start on a clean line
+    if (validLength < Buffer.byteLength(raw, 'utf8')) {
+      fs.truncateSync(this.journalPath, validLength);
+    }
+
+    return applied;
+  }
+
+  apply(state, entry) {
+    const collection = state[entry.collection];
+    if (!collection) {
+      console.warn('Ignoring journal entry for unknown collection', { collection: entry.collection });
+      return;
+    }
+
+    if (entry.op === 'put') {
+      collection.set(entry.record.id, entry.record);
+    } else if (entry.op === 'delete') {
+      collection.delete(entry.id);
+    }
+  }
+
+  put(collection, record) {
+    this.append({ op: 'put', collection, record });
+  }
+
+  remove(collection, id) {
+    this.append({ op: 'delete', collection, id });
+  }
+
+  append(entry) {
+    const fd = fs.openSync(this.journalPath, 'a');
+    try {
+      fs.writeSync(fd, `${JSON.stringify(entry)}\n`);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.journalEntries++;
+  }
+
+  shouldCompact() {
+    return this.journalEntries >= COMPACT_THRESHOLD;
+  }
+
+  // Write the full state as a new snapshot and start an empty journal.
+  // Replaying an old journal over a newer snapshot is harmless, so a crash
+  // between the rename and the truncate loses nothing.
+  compact(state) {
+    const snapshot = {};
+    this.collections.forEach(collection => {
+      snapshot[collection] = Array.from(state[collection].values());
+    });
+
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.snapshotPath);
+
+    fs.truncateSync(this.journalPath, 0);
+    this.journalEntries = 0;
+    console.log('FileStore compacted journal into snapshot', { dataDir: this.dataDir });
+  }
+}
+
+export default FileStore;
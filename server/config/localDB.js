@@ -1,17 +1,63 @@
-// A simple in-memory database for development
+import path from 'path';
+import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import FileStore from './fileStore.js';
+
+// Load environment variables
+dotenv.config();
+
+// Collections kept by LocalDB, in the order they are stored
+const COLLECTIONS = ['users', 'canvases', 'artifacts', 'usage'];
+
+// Generate a record ID; timestamps alone collide when records are created in the same millisecond
+const generateId = (prefix) => `${prefix}_${uuidv4()}`;
+
+// A simple database for development, kept in memory and optionally backed by a
+// FileStore so data survives server restarts
 class LocalDB {
-  constructor() {
+  constructor(store = null) {
+    this.store = store;
     this.users = new Map();
     this.canvases = new Map();
     this.artifacts = new Map();
-    console.log('LocalDB initialized');
+    this.usage = new Map();
+
+    if (store) {
+      const state = store.load();
+      COLLECTIONS.forEach(collection => {
+        this[collection] = state[collection];
+      });
+    }
+
+    console.log(`LocalDB initialized (${store ? 'file' : 'memory'} storage)`);
+  }
+
+  // Record a change with the storage engine; a no-op for in-memory storage
+  persist(collection, op, value) {
+    if (!this.store) return;
+
+    if (op === 'put') {
+      this.store.put(collection, value);
+    } else {
+      this.store.remove(collection, value);
+    }
+
+    if (this.store.shouldCompact()) {
+      this.store.compact({
+        users: this.users,
+        canvases: this.canvases,
+        artifacts: this.artifacts,
+        usage: this.usage
+      });
+    }
   }
 
   // User methods
   async createUser(userData) {
-    const id = `user_${Date.now()}`;
+    const id = generateId('user');
     const user = { id, ...userData, createdAt: new Date().toISOString() };
     this.users.set(id, user);
+    this.persist('users', 'put', user);
     return user;
   }
 
@@ -25,7 +71,7 @@ class LocalDB {
 
   // Canvas methods
   async createCanvas(canvasData) {
-    const id = `canvas_${Date.now()}`;
+    const id = generateId('canvas');
     const canvas = { 
       id, 
       ...canvasData, 
@@ -33,6 +79,7 @@ class LocalDB {
       updatedAt: new Date().toISOString()
     };
     this.canvases.set(id, canvas);
+    this.persist('canvases', 'put', canvas);
     return canvas;
   }
 
@@ -54,6 +101,7 @@ class LocalDB {
       updatedAt: new Date().toISOString() 
     };
     this.canvases.set(id, updatedCanvas);
+    this.persist('canvases', 'put', updatedCanvas);
     return updatedCanvas;
   }
 
@@ -62,18 +110,20 @@ class LocalDB {
     if (!canvas) return false;
     
     this.canvases.delete(id);
+    this.persist('canvases', 'delete', id);
     return true;
   }
 
   // Artifact methods
   async createArtifact(artifactData) {
-    const id = `artifact_${Date.now()}`;
+    const id = generateId('artifact');
     const artifact = { 
       id, 
       ...artifactData, 
       createdAt: new Date().toISOString() 
     };
     this.artifacts.set(id, artifact);
+    this.persist('artifacts', 'put', artifact);
     return artifact;
   }
 
@@ -85,15 +135,61 @@ class LocalDB {
     return this.artifacts.get(id) || null;
   }
 
+  async updateArtifact(id, artifactData) {
+    const artifact = this.artifacts.get(id);
+    if (!artifact) return null;
+    
+    const updatedArtifact = { 
+      ...artifact, 
+      ...artifactData, 
+      updatedAt: new Date().toISOString() 
+    };
+    this.artifacts.set(id, updatedArtifact);
+    this.persist('artifacts', 'put', updatedArtifact);
+    return updatedArtifact;
+  }
+
   async deleteArtifact(id) {
     const artifact = this.artifacts.get(id);
     if (!artifact) return false;
     
     this.artifacts.delete(id);
+    this.persist('artifacts', 'delete', id);
     return true;
   }
+
+  // Usage methods
+  async createUsageRecord(recordData) {
+    const id = generateId('usage');
+    const record = { id, ...recordData, createdAt: new Date().toISOString() };
+    this.usage.set(id, record);
+    this.persist('usage', 'put', record);
+    return record;
+  }
+
+  async getUsageRecordsByUserId(userId, since) {
+    return Array.from(this.usage.values()).filter(record =>
+      record.userId === userId && new Date(record.createdAt) >= since
+    );
+  }
 }
 
+// Create the database with the storage driver selected by LOCAL_DB_DRIVER
+const createLocalDB = () => {
+  const driver = process.env.LOCAL_DB_DRIVER || 'memory';
+
+  if (driver === 'file') {
+    const dataDir = path.resolve(process.env.LOCAL_DB_PATH || 'data');
+    return new LocalDB(new FileStore(dataDir, COLLECTIONS));
+  }
+
+  if (driver !== 'memory') {
+    console.warn(`Unknown LOCAL_DB_DRIVER "${driver}", falling back to in-memory storage`);
+  }
+
+  return new LocalDB();
+};
+
 // Export a singleton instance
-const localDB = new LocalDB();
+const localDB = createLocalDB();
 export default localDB; 
\ No newline at end of file
@@ -0,0 +1,107 @@
+import bcrypt from 'bcryptjs';
+import repository from '../repositories/index.js';
+import { AUTH_COOKIE_NAME, signSessionToken, sessionCookieOptions } from '../config/auth.js';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Hash checked when the username is unknown, so those logins take as long as a wrong password
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
+// Public view of a user record; never exposes the password hash
+const toPublicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  createdAt: user.createdAt
+});
+
+// Issue a session cookie for the user and send the user back
+const sendSession = (res, user, statusCode) => {
+  res.cookie(AUTH_COOKIE_NAME, signSessionToken(user.id), sessionCookieOptions);
+  res.status(statusCode).json({ success: true, data: { user: toPublicUser(user) } });
+};
+
+// Register a new user and sign them in
+export const register = async (req, res) => {
+  try {
+    const username = typeof req.body.username === 'string' ? req.body.username.trim() : '';
+    const { password } = req.body;
+
+    if (!username || !password) {
+      return res.status(400).json({ success: false, error: 'Username and password are required' });
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` 
+      });
+    }
+
+    const existingUser = await repository.getUserByUsername(username);
+    if (existingUser) {
+      return res.status(400).json({ success: false, error: 'Username is already taken' });
+    }
+
+    const user = await repository.createUser({ username, password });
+
+    console.log('User registered:', { userId: user.id, username: user.username });
+    sendSession(res, user, 201);
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ success: false, error: 'Failed to register user' });
+  }
+};
+
+// Sign in with username and password
+export const login = async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (!username || !password) {
+      return res.status(400).json({ success: false, error: 'Username and password are required' });
+    }
+
+    const user = await repository.getUserByUsername(String(username).trim());
+    let passwordMatches = false;
+
+    if (user) {
+      passwordMatches = await user.matchPassword(String(password));
+    } else {
+      await bcrypt.compare(String(password), DUMMY_PASSWORD_HASH);
+    }
+
+    // Same response for unknown users and wrong passwords
+    if (!passwordMatches) {
+      return res.status(401).json({ success: false, error: 'Invalid username or password' });
+    }
+
+    console.log('User logged in:', { userId: user.id, username: user.username });
+    sendSession(res, user, 200);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ success: false, error: 'Failed to log in' });
+  }
+};
+
+// Sign out by clearing the session cookie
+export const logout = (req, res) => {
+  const { maxAge, ...cookieOptions } = sessionCookieOptions;
+  res.clearCookie(AUTH_COOKIE_NAME, cookieOptions);
+  res.json({ success: true, data: {} });
+};
+
+// Get the signed-in user
+export const getMe = async (req, res) => {
+  try {
+    const user = await repository.getUserById(req.user._id);
+
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    res.json({ success: true, data: { user: toPublicUser(user) } });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch user' });
+  }
+};
@@ -1,4 +1,4 @@
-import Canvas from '../models/Canvas.js';
+import repository from '../repositories/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
@@ -13,16 +13,8 @@ export const updateNodeContent = async (req, res) => {
       return res.status(400).json({ success: false, error: 'Content is required' });
     }
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to edit this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     // Find the node to update
     const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
@@ -33,22 +25,24 @@ export const updateNodeContent = async (req, res) => {
     
     const node = canvas.nodes[nodeIndex];
     
+    // Update node properties
+    const changes = {
+      content,
+      isEdited: true,
+      lastEditedAt: new Date()
+    };
+    
     // If this is the first edit, save the original content
     if (!node.isEdited) {
-      node.originalContent = node.content;
+      changes.originalContent = node.content;
     }
     
-    // Update node properties
-    node.content = content;
-    node.isEdited = true;
-    node.lastEditedAt = new Date();
-    
-    await canvas.save();
+    const updatedNode = await repository.updateNode(canvasId, nodeId, changes);
     
     res.status(200).json({ 
       success: true, 
       data: {
-        node: canvas.nodes[nodeIndex]
+        node: updatedNode
       }
     });
   } catch (error) {
@@ -67,20 +61,8 @@ export const addAttachment = async (req, res) => {
     
     const { canvasId, nodeId } = req.params;
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      // Delete the uploaded file if canvas not found
-      fs.unlinkSync(req.file.path);
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      // Delete the uploaded file if user is not authorized
-      fs.unlinkSync(req.file.path);
-      return res.status(403).json({ success: false, error: 'Not authorized to edit this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     // Find the node to update
     const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
@@ -97,17 +79,14 @@ export const addAttachment = async (req, res) => {
       fileType: req.file.mimetype,
       filePath: req.file.path,
       fileSize: req.file.size,
-      uploadedAt: new Date()
+      uploadedAt: new Date(),
+      includeInContext: true
     };
     
     // Add attachment to node
-    if (!canvas.nodes[nodeIndex].attachments) {
-      canvas.nodes[nodeIndex].attachments = [];
-    }
-    
-    canvas.nodes[nodeIndex].attachments.push(attachment);
+    const attachments = [...(canvas.nodes[nodeIndex].attachments || []), attachment];
     
-    await canvas.save();
+    await repository.updateNode(canvasId, nodeId, { attachments });
     
     res.status(200).json({ 
       success: true, 
@@ -131,22 +110,58 @@ export const addAttachment = async (req, res) => {
   }
 };
 
-// Remove attachment from a node
-export const removeAttachment = async (req, res) => {
+// Turn an attachment's use as model context on or off
+export const updateAttachment = async (req, res) => {
   try {
     const { canvasId, nodeId, attachmentIndex } = req.params;
+    const { includeInContext } = req.body;
+    
+    if (typeof includeInContext !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'includeInContext must be true or false' });
+    }
+    
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
-    const canvas = await Canvas.findById(canvasId);
+    // Find the node
+    const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
     
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
+    if (nodeIndex === -1) {
+      return res.status(404).json({ success: false, error: 'Node not found' });
     }
     
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to edit this canvas' });
+    const node = canvas.nodes[nodeIndex];
+    
+    // Check if attachment exists
+    if (!node.attachments || !node.attachments[attachmentIndex]) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
     }
     
+    const attachments = [...node.attachments];
+    attachments[attachmentIndex] = { ...attachments[attachmentIndex], includeInContext };
+    
+    await repository.updateNode(canvasId, nodeId, { attachments });
+    
+    res.status(200).json({ 
+      success: true, 
+      data: {
+        attachment: attachments[attachmentIndex]
+      }
+    });
+  } catch (error) {
+    console.error('Error updating attachment:', error);
+    res.status(500).json({ success: false, error: 'Error updating attachment' });
+  }
+};
+
+// Remove attachment from a node
+export const removeAttachment = async (req, res) => {
+  try {
+    const { canvasId, nodeId, attachmentIndex } = req.params;
+    
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
+    
     // Find the node
     const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
     
@@ -165,9 +180,10 @@ export const removeAttachment = async (req, res) => {
     const filePath = node.attachments[attachmentIndex].filePath;
     
     // Remove attachment from array
-    node.attachments.splice(attachmentIndex, 1);
+    const attachments = [...node.attachments];
+    attachments.splice(attachmentIndex, 1);
     
-    await canvas.save();
+    await repository.updateNode(canvasId, nodeId, { attachments });
     
     // Try to remove the actual file
     if (filePath) {
@@ -199,16 +215,8 @@ export const addSource = async (req, res) => {
       return res.status(400).json({ success: false, error: 'Source text is required' });
     }
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to edit this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     // Find the node
     const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
@@ -225,13 +233,9 @@ export const addSource = async (req, res) => {
     };
     
     // Add source to node
-    if (!canvas.nodes[nodeIndex].sources) {
-      canvas.nodes[nodeIndex].sources = [];
-    }
+    const sources = [...(canvas.nodes[nodeIndex].sources || []), source];
     
-    canvas.nodes[nodeIndex].sources.push(source);
-    
-    await canvas.save();
+    await repository.updateNode(canvasId, nodeId, { sources });
     
     res.status(200).json({ 
       success: true, 
@@ -250,16 +254,8 @@ export const removeSource = async (req, res) => {
   try {
     const { canvasId, nodeId, sourceIndex } = req.params;
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to edit this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     // Find the node
     const nodeIndex = canvas.nodes.findIndex(node => node.id === nodeId);
@@ -276,9 +272,10 @@ export const removeSource = async (req, res) => {
     }
     
     // Remove source from array
-    node.sources.splice(sourceIndex, 1);
+    const sources = [...node.sources];
+    sources.splice(sourceIndex, 1);
     
-    await canvas.save();
+    await repository.updateNode(canvasId, nodeId, { sources });
     
     res.status(200).json({ 
       success: true, 
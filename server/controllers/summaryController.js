@@ -1,58 +1,63 @@
-import Canvas from '../models/Canvas.js';
-import { v4 as uuidv4 } from 'uuid';
+import repository from '../repositories/index.js';
+import claudeService, { SUMMARY_STYLES } from '../services/claudeService.js';
+import { QueueFullError } from '../services/requestQueue.js';
+import { refuseFullQueue } from '../middleware/queueMiddleware.js';
+import { abortOnDisconnect } from '../utils/abort.js';
 
-// Generate a summary for the entire mind map
+// Generate a summary for the entire mind map in the requested style (executive brief by
+// default), recording the nodes it covers
 export const generateSummary = async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
   try {
     const { canvasId } = req.params;
+    const { style = 'brief' } = req.body || {};
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
+    if (!Object.hasOwn(SUMMARY_STYLES, style)) {
+      return res.status(400).json({
+        success: false,
+        error: `Summary style must be one of: ${Object.keys(SUMMARY_STYLES).join(', ')}`
+      });
     }
     
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to access this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
-    // Extract all node content
-    const nodeContents = canvas.nodes.map(node => {
-      return {
-        id: node.id,
-        type: node.type,
-        content: node.content,
-      };
-    });
+    const generated = await claudeService.summarizeCanvas(canvas, style, {
+      userId: req.user._id.toString(),
+      canvasId
+    }, { signal });
     
-    // TODO: This is where we would call Claude API to generate the summary
-    // Since Claude API is not yet integrated, we'll create a placeholder summary
+    if (!generated) {
+      return res.status(400).json({ success: false, error: 'This mind map has nothing to summarize yet' });
+    }
     
     const summary = {
-      title: `Summary of "${canvas.title}"`,
-      content: `This is a placeholder summary for the mind map "${canvas.title}". 
-      When the Claude API is integrated, this will be replaced with an AI-generated summary
-      based on the ${nodeContents.length} nodes in this mind map.`,
+      title: generated.title,
+      content: generated.content,
+      style: generated.style,
+      nodeIds: generated.nodeIds,
       createdAt: new Date()
     };
     
     // Add summary to canvas
-    if (!canvas.summaries) {
-      canvas.summaries = [];
-    }
-    
-    canvas.summaries.push(summary);
-    
-    await canvas.save();
+    const savedSummary = await repository.addSummary(canvasId, summary);
     
     res.status(200).json({
       success: true,
       data: {
-        summary: canvas.summaries[canvas.summaries.length - 1]
+        summary: savedSummary
       }
     });
   } catch (error) {
+    if (signal.aborted) {
+      return console.log('Summary cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
     console.error('Error generating summary:', error);
     res.status(500).json({ success: false, error: 'Error generating summary' });
   }
@@ -61,18 +66,8 @@ export const generateSummary = async (req, res) => {
 // Get all summaries for a canvas
 export const getSummaries = async (req, res) => {
   try {
-    const { canvasId } = req.params;
-    
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to access this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     const summaries = canvas.summaries || [];
     
@@ -93,16 +88,8 @@ export const deleteSummary = async (req, res) => {
   try {
     const { canvasId, summaryIndex } = req.params;
     
-    const canvas = await Canvas.findById(canvasId);
-    
-    if (!canvas) {
-      return res.status(404).json({ success: false, error: 'Canvas not found' });
-    }
-    
-    // Check if user owns the canvas
-    if (canvas.userId.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ success: false, error: 'Not authorized to modify this canvas' });
-    }
+    // Ownership was checked by requireCanvasOwner
+    const { canvas } = req;
     
     // Check if summary exists
     if (!canvas.summaries || !canvas.summaries[summaryIndex]) {
@@ -110,9 +97,7 @@ export const deleteSummary = async (req, res) => {
     }
     
     // Remove summary
-    canvas.summaries.splice(summaryIndex, 1);
-    
-    await canvas.save();
+    await repository.removeSummary(canvasId, summaryIndex);
     
     res.status(200).json({
       success: true,
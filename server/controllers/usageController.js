@@ -0,0 +1,12 @@
+import usageService from '../services/usageService.js';
+
+// Get the signed-in user's token usage and quotas
+export const getUsage = async (req, res) => {
+  try {
+    const summary = await usageService.getUsageSummary(req.user._id.toString());
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch usage' });
+  }
+};
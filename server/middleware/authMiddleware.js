@@ -1,11 +1,47 @@
-// Basic authentication middleware
-// This is a placeholder implementation that just passes through
-// In a real application, this would verify JWT tokens, session cookies, etc.
-
-const protect = (req, res, next) => {
-  // For now, we'll just pass through without checking credentials
-  // In a real application, you would verify the auth token here
-  next();
+import repository from '../repositories/index.js';
+import { AUTH_COOKIE_NAME, verifySessionToken } from '../config/auth.js';
+
+// Read the session token from the cookie, or from a Bearer header for API clients
+const getRequestToken = (req) => {
+  if (req.cookies?.[AUTH_COOKIE_NAME]) {
+    return req.cookies[AUTH_COOKIE_NAME];
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.slice('Bearer '.length);
+  }
+
+  return null;
+};
+
+// Authentication middleware: verifies the session and populates req.user
+const protect = async (req, res, next) => {
+  const token = getRequestToken(req);
+
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Not authorized, please log in' });
+  }
+
+  try {
+    const userId = verifySessionToken(token);
+    const user = await repository.getUserById(userId);
+
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authorized, user no longer exists' });
+    }
+
+    req.user = {
+      _id: user.id,
+      id: user.id,
+      username: user.username
+    };
+
+    next();
+  } catch (error) {
+    console.error('Session verification failed:', error.message);
+    return res.status(401).json({ success: false, error: 'Not authorized, session is invalid or expired' });
+  }
 };
 
-export { protect }; 
\ No newline at end of file
+export { protect };
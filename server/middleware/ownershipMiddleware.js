@@ -0,0 +1,93 @@
+import repository from '../repositories/index.js';
+
+// Authorization policy: a canvas or artifact is only accessible to the user who owns it
+export const isOwner = (resource, user) =>
+  !!resource && !!user && !!resource.userId && resource.userId.toString() === user._id.toString();
+
+// Load the canvas identified by the request and ensure the signed-in user owns it.
+// Responds 404 when the canvas does not exist and 403 when it belongs to someone else;
+// otherwise the canvas is available to the handler as req.canvas.
+// Must run after `protect`.
+export const requireCanvasOwner = (getCanvasId = (req) => req.params.canvasId) => async (req, res, next) => {
+  try {
+    const canvasId = getCanvasId(req);
+
+    if (!canvasId) {
+      return res.status(400).json({ success: false, error: 'Canvas ID is required' });
+    }
+
+    const canvas = await repository.getCanvasById(canvasId);
+
+    if (!canvas) {
+      return res.status(404).json({ success: false, error: 'Canvas not found' });
+    }
+
+    if (!isOwner(canvas, req.user)) {
+      console.warn('Blocked access to canvas owned by another user', { 
+        canvasId, 
+        userId: req.user._id, 
+        method: req.method, 
+        url: req.originalUrl 
+      });
+      return res.status(403).json({ success: false, error: 'Not authorized to access this canvas' });
+    }
+
+    req.canvas = canvas;
+    next();
+  } catch (error) {
+    console.error('Error checking canvas ownership:', error);
+    res.status(500).json({ success: false, error: 'Error checking canvas access' });
+  }
+};
+
+// Load the canvas a request names, as req.canvas, when the signed-in user owns it. Unlike
+// requireCanvasOwner it never refuses the request: a canvas that doesn't exist, belongs to
+// someone else or can't be loaded is left unset.
+// Must run after `protect`.
+export const loadOwnedCanvas = (getCanvasId = (req) => req.body?.canvasId) => async (req, res, next) => {
+  try {
+    const canvasId = getCanvasId(req);
+
+    if (typeof canvasId === 'string' && canvasId) {
+      const canvas = await repository.getCanvasById(canvasId);
+
+      if (isOwner(canvas, req.user)) {
+        req.canvas = canvas;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading canvas:', error);
+  }
+
+  next();
+};
+
+// Load the synthesis artifact identified by the request and ensure the signed-in user owns
+// it, responding 404 or 403 like requireCanvasOwner; otherwise the artifact is available to
+// the handler as req.artifact.
+// Must run after `protect`.
+export const requireArtifactOwner = (getArtifactId = (req) => req.params.id) => async (req, res, next) => {
+  try {
+    const artifact = await repository.getArtifactById(getArtifactId(req));
+
+    if (!artifact) {
+      return res.status(404).json({ success: false, error: 'Synthesis artifact not found' });
+    }
+
+    if (!isOwner(artifact, req.user)) {
+      console.warn('Blocked access to artifact owned by another user', { 
+        artifactId: getArtifactId(req), 
+        userId: req.user._id, 
+        method: req.method, 
+        url: req.originalUrl 
+      });
+      return res.status(403).json({ success: false, error: 'Not authorized to access this artifact' });
+    }
+
+    req.artifact = artifact;
+    next();
+  } catch (error) {
+    console.error('Error checking artifact ownership:', error);
+    res.status(500).json({ success: false, error: 'Error checking artifact access' });
+  }
+};
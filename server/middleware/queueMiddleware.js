@@ -0,0 +1,27 @@
+import requestQueue from '../services/requestQueue.js';
+
+// Respond 429 with a Retry-After header for when the user's first waiting call is
+// expected to start
+export const refuseFullQueue = (req, res, retryAfter) => {
+  console.warn('Refused LLM request with a full queue', { userId: req.user._id, retryAfter });
+
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error: `Too many requests waiting. Please try again in ${retryAfter} seconds.`,
+    retryAfter
+  });
+};
+
+// Refuse LLM requests from users who already have the maximum number of calls waiting
+// in the request queue. Requests that pass can still find the queue full once their call
+// is made, when the routes refuse them the same way.
+// Must run after `protect`.
+export const requireQueueSpace = (req, res, next) => {
+  const retryAfter = requestQueue.getRetryAfter(req.user._id.toString());
+
+  if (retryAfter !== null) {
+    return refuseFullQueue(req, res, retryAfter);
+  }
+
+  next();
+};
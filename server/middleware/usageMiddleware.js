@@ -0,0 +1,28 @@
+import usageService from '../services/usageService.js';
+
+const PERIOD_LABELS = { daily: 'Daily', monthly: 'Monthly' };
+
+// Refuse LLM requests from users who have used up their daily or monthly token quota.
+// Responds 429 with a Retry-After header and the exceeded quota, which clients can show.
+// Must run after `protect`.
+export const requireUsageQuota = async (req, res, next) => {
+  try {
+    const exceeded = await usageService.checkQuota(req.user._id.toString());
+
+    if (exceeded) {
+      const retryAfterSeconds = Math.max(Math.ceil((new Date(exceeded.resetAt) - Date.now()) / 1000), 1);
+      console.warn('Refused LLM request over usage quota', { userId: req.user._id, ...exceeded });
+
+      res.set('Retry-After', String(retryAfterSeconds));
+      return res.status(429).json({
+        error: `${PERIOD_LABELS[exceeded.period]} token quota of ${exceeded.limit} reached. It resets at ${exceeded.resetAt}.`,
+        quota: exceeded
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error checking usage quota:', error);
+    res.status(500).json({ error: 'Error checking usage quota' });
+  }
+};
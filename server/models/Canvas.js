@@ -8,12 +8,12 @@ const nodeSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ['response', 'followUp'],
+    enum: ['response', 'followUp', 'topic', 'synthesis'],
     required: true,
   },
   content: {
     type: String,
-    required: true,
+    default: '',
   },
   position: {
     x: {
@@ -56,6 +56,10 @@ const nodeSchema = new mongoose.Schema({
       type: Date,
       default: Date.now,
     },
+    includeInContext: {
+      type: Boolean,
+      default: true,
+    },
   }],
   sources: [{
     text: {
@@ -89,6 +93,9 @@ const edgeSchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  type: {
+    type: String,
+  },
   animated: {
     type: Boolean,
     default: true,
@@ -96,8 +103,45 @@ const edgeSchema = new mongoose.Schema({
   style: {
     type: mongoose.Schema.Types.Mixed,
   },
+  markerEnd: {
+    type: mongoose.Schema.Types.Mixed,
+  },
 });
 
+// Generation settings schema (per-canvas model and answer options; unset fields use the defaults)
+const generationSettingsSchema = new mongoose.Schema({
+  model: {
+    type: String,
+  },
+  temperature: {
+    type: Number,
+    min: 0,
+    max: 1,
+  },
+  maxTokens: {
+    type: Number,
+    min: 100,
+    max: 4000,
+  },
+  answerLength: {
+    type: String,
+    enum: ['brief', 'standard', 'detailed'],
+  },
+  followUpCount: {
+    type: Number,
+    min: 1,
+    max: 5,
+  },
+  contextBudget: {
+    type: Number,
+    min: 500,
+    max: 100000,
+  },
+  grounded: {
+    type: Boolean,
+  },
+}, { _id: false });
+
 // Canvas schema
 const canvasSchema = new mongoose.Schema(
   {
@@ -117,6 +161,10 @@ const canvasSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
+    generationSettings: {
+      type: generationSettingsSchema,
+      default: () => ({}),
+    },
     summaries: [{
       title: {
         type: String,
@@ -126,6 +174,13 @@ const canvasSchema = new mongoose.Schema(
         type: String,
         required: true,
       },
+      style: {
+        type: String,
+        enum: ['brief', 'outline', 'questions'],
+      },
+      nodeIds: [{
+        type: String,
+      }],
       createdAt: {
         type: Date,
         default: Date.now,
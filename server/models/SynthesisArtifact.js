@@ -16,6 +16,11 @@ const synthesisArtifactSchema = new mongoose.Schema(
       ref: 'Canvas',
       required: true,
     },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
     selectedNodes: [{
       type: String,
       required: true,
@@ -23,6 +28,17 @@ const synthesisArtifactSchema = new mongoose.Schema(
     customPrompt: {
       type: String,
     },
+    // Earlier versions of the content, oldest first, kept each time the artifact is re-run
+    revisions: [{
+      _id: false,
+      content: { type: String, required: true },
+      customPrompt: { type: String },
+      createdAt: { type: Date, required: true },
+    }],
+    // When the current content was synthesized, if it came from a re-run
+    revisedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+
+const usageRecordSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    canvasId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Canvas',
+    },
+    operation: {
+      type: String,
+      required: true,
+    },
+    provider: {
+      type: String,
+    },
+    model: {
+      type: String,
+    },
+    inputTokens: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    outputTokens: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    // True when the provider reported no usage and the counts were estimated from the text
+    estimated: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Quota checks and usage summaries read one user's records for the current period
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+
+const UsageRecord = mongoose.model('UsageRecord', usageRecordSchema);
+
+export default UsageRecord;
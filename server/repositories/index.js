@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+import localRepository from './localRepository.js';
+import mongoRepository from './mongoRepository.js';
+
+// Load environment variables
+dotenv.config();
+
+// Production with a MongoDB URI uses Mongoose (see config/db.js); everything else uses LocalDB.
+// Routes and controllers only talk to this module, so every feature behaves the same on either backend.
+const repository = process.env.NODE_ENV === 'production' && process.env.MONGO_URI
+  ? mongoRepository
+  : localRepository;
+
+console.log(`Using ${repository.name} repository`);
+
+export default repository;
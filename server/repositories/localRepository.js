@@ -0,0 +1,128 @@
+import bcrypt from 'bcryptjs';
+import localDB from '../config/localDB.js';
+
+// Find a node inside a canvas record
+const findNodeIndex = (canvas, nodeId) => (canvas.nodes || []).findIndex(node => node.id === nodeId);
+
+// Sort records newest first by the given timestamp field, matching the Mongo repository
+const newestFirst = (field) => (a, b) => new Date(b[field]) - new Date(a[field]);
+
+// Repository backed by LocalDB (in-memory or file storage), used outside production
+const localRepository = {
+  name: 'local',
+
+  // User methods
+  async createUser(userData) {
+    // Hash the password the same way the User model's pre-save hook does
+    const salt = await bcrypt.genSalt(10);
+    const password = await bcrypt.hash(userData.password, salt);
+    return localDB.createUser({ ...userData, password });
+  },
+
+  async getUserById(id) {
+    return localDB.getUserById(id);
+  },
+
+  async getUserByUsername(username) {
+    const user = await localDB.getUserByUsername(username);
+    // Compare passwords the same way the User model's matchPassword method does
+    return user && { ...user, matchPassword: enteredPassword => bcrypt.compare(enteredPassword, user.password) };
+  },
+
+  // Canvas methods
+  async createCanvas(canvasData) {
+    return localDB.createCanvas({
+      nodes: [],
+      edges: [],
+      summaries: [],
+      ...canvasData
+    });
+  },
+
+  async getCanvasById(id) {
+    return localDB.getCanvasById(id);
+  },
+
+  async getCanvasesByUserId(userId) {
+    const canvases = await localDB.getCanvasByUserId(userId);
+    return canvases.sort(newestFirst('updatedAt'));
+  },
+
+  async updateCanvas(id, canvasData) {
+    return localDB.updateCanvas(id, canvasData);
+  },
+
+  async deleteCanvas(id) {
+    return localDB.deleteCanvas(id);
+  },
+
+  // Node methods
+  async updateNode(canvasId, nodeId, changes) {
+    const canvas = await localDB.getCanvasById(canvasId);
+    if (!canvas) return null;
+
+    const nodeIndex = findNodeIndex(canvas, nodeId);
+    if (nodeIndex === -1) return null;
+
+    const nodes = [...canvas.nodes];
+    nodes[nodeIndex] = { ...nodes[nodeIndex], ...changes };
+
+    await localDB.updateCanvas(canvasId, { nodes });
+    return nodes[nodeIndex];
+  },
+
+  // Summary methods
+  async addSummary(canvasId, summary) {
+    const canvas = await localDB.getCanvasById(canvasId);
+    if (!canvas) return null;
+
+    const savedSummary = { createdAt: new Date().toISOString(), ...summary };
+    await localDB.updateCanvas(canvasId, { summaries: [...(canvas.summaries || []), savedSummary] });
+    return savedSummary;
+  },
+
+  async removeSummary(canvasId, summaryIndex) {
+    const canvas = await localDB.getCanvasById(canvasId);
+    if (!canvas || !canvas.summaries || !canvas.summaries[summaryIndex]) return false;
+
+    const summaries = [...canvas.summaries];
+    summaries.splice(summaryIndex, 1);
+
+    await localDB.updateCanvas(canvasId, { summaries });
+    return true;
+  },
+
+  // Artifact methods
+  async createArtifact(artifactData) {
+    return localDB.createArtifact(artifactData);
+  },
+
+  async getArtifactsByMindmapId(mindmapId) {
+    const artifacts = await localDB.getArtifactsByMindmapId(mindmapId);
+    return artifacts.sort(newestFirst('createdAt'));
+  },
+
+  async getArtifactById(id) {
+    return localDB.getArtifactById(id);
+  },
+
+  async updateArtifact(id, artifactData) {
+    return localDB.updateArtifact(id, artifactData);
+  },
+
+  async deleteArtifact(id) {
+    return localDB.deleteArtifact(id);
+  },
+
+  // Usage methods
+  async createUsageRecord(recordData) {
+    return localDB.createUsageRecord(recordData);
+  },
+
+  async getUsageRecordsByUserId(userId, since) {
+    const records = await localDB.getUsageRecordsByUserId(userId, since);
+    return records.sort(newestFirst('createdAt'));
+  }
+};
+
+export default localRepository;
@@ -0,0 +1,148 @@
+import mongoose from 'mongoose';
+import Canvas from '../models/Canvas.js';
+import SynthesisArtifact from '../models/SynthesisArtifact.js';
+import UsageRecord from '../models/UsageRecord.js';
+import User from '../models/User.js';
+
+// Convert a Mongoose document into the plain object shape LocalDB returns (with an `id`)
+const toPlain = (doc) => {
+  if (!doc) return null;
+  return doc.toObject({ virtuals: true, versionKey: false });
+};
+
+// Invalid ObjectIds can never match a document, so treat them as not found
+const isValidId = (id) => mongoose.Types.ObjectId.isValid(id);
+
+// Repository backed by the Mongoose models, used in production
+const mongoRepository = {
+  name: 'mongo',
+
+  // User methods
+  async createUser(userData) {
+    const user = await User.create(userData);
+    return toPlain(user);
+  },
+
+  async getUserById(id) {
+    if (!isValidId(id)) return null;
+    return toPlain(await User.findById(id));
+  },
+
+  // The user comes with the model's matchPassword method, for signing in
+  async getUserByUsername(username) {
+    const user = await User.findOne({ username });
+    return user && { ...toPlain(user), matchPassword: enteredPassword => user.matchPassword(enteredPassword) };
+  },
+
+  // Canvas methods
+  async createCanvas(canvasData) {
+    const canvas = await Canvas.create(canvasData);
+    return toPlain(canvas);
+  },
+
+  async getCanvasById(id) {
+    if (!isValidId(id)) return null;
+    return toPlain(await Canvas.findById(id));
+  },
+
+  async getCanvasesByUserId(userId) {
+    if (!isValidId(userId)) return [];
+    const canvases = await Canvas.find({ userId }).sort({ updatedAt: -1 });
+    return canvases.map(toPlain);
+  },
+
+  async updateCanvas(id, canvasData) {
+    if (!isValidId(id)) return null;
+    const canvas = await Canvas.findByIdAndUpdate(id, canvasData, { new: true, runValidators: true });
+    return toPlain(canvas);
+  },
+
+  async deleteCanvas(id) {
+    if (!isValidId(id)) return false;
+    const canvas = await Canvas.findByIdAndDelete(id);
+    return !!canvas;
+  },
+
+  // Node methods
+  async updateNode(canvasId, nodeId, changes) {
+    if (!isValidId(canvasId)) return null;
+
+    const canvas = await Canvas.findById(canvasId);
+    if (!canvas) return null;
+
+    const node = canvas.nodes.find(n => n.id === nodeId);
+    if (!node) return null;
+
+    node.set(changes);
+    await canvas.save();
+    return toPlain(node);
+  },
+
+  // Summary methods
+  async addSummary(canvasId, summary) {
+    if (!isValidId(canvasId)) return null;
+
+    const canvas = await Canvas.findById(canvasId);
+    if (!canvas) return null;
+
+    canvas.summaries.push(summary);
+    await canvas.save();
+    return toPlain(canvas.summaries[canvas.summaries.length - 1]);
+  },
+
+  async removeSummary(canvasId, summaryIndex) {
+    if (!isValidId(canvasId)) return false;
+
+    const canvas = await Canvas.findById(canvasId);
+    if (!canvas || !canvas.summaries[summaryIndex]) return false;
+
+    canvas.summaries.splice(summaryIndex, 1);
+    await canvas.save();
+    return true;
+  },
+
+  // Artifact methods
+  async createArtifact(artifactData) {
+    const artifact = await SynthesisArtifact.create(artifactData);
+    return toPlain(artifact);
+  },
+
+  async getArtifactsByMindmapId(mindmapId) {
+    if (!isValidId(mindmapId)) return [];
+    const artifacts = await SynthesisArtifact.find({ mindmapId }).sort({ createdAt: -1 });
+    return artifacts.map(toPlain);
+  },
+
+  async getArtifactById(id) {
+    if (!isValidId(id)) return null;
+    return toPlain(await SynthesisArtifact.findById(id));
+  },
+
+  async updateArtifact(id, artifactData) {
+    if (!isValidId(id)) return null;
+    const artifact = await SynthesisArtifact.findByIdAndUpdate(id, artifactData, { new: true, runValidators: true });
+    return toPlain(artifact);
+  },
+
+  async deleteArtifact(id) {
+    if (!isValidId(id)) return false;
+    const artifact = await SynthesisArtifact.findByIdAndDelete(id);
+    return !!artifact;
+  },
+
+  // Usage methods
+  async createUsageRecord(recordData) {
+    // Usage is still counted against the user when the canvas ID isn't one
+    const { canvasId, ...rest } = recordData;
+    const record = await UsageRecord.create(isValidId(canvasId) ? recordData : rest);
+    return toPlain(record);
+  },
+
+  async getUsageRecordsByUserId(userId, since) {
+    if (!isValidId(userId)) return [];
+    const records = await UsageRecord.find({ userId, createdAt: { $gte: since } }).sort({ createdAt: -1 });
+    return records.map(toPlain);
+  }
+};
+
+export default mongoRepository;
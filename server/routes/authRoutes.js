@@ -0,0 +1,35 @@
+import express from 'express';
+import { protect } from '../middleware/authMiddleware.js';
+import { register, login, logout, getMe } from '../controllers/authController.js';
+
+const router = express.Router();
+
+/**
+ * @route   POST /api/auth/register
+ * @desc    Create an account and start a session
+ * @access  Public
+ */
+router.post('/register', register);
+
+/**
+ * @route   POST /api/auth/login
+ * @desc    Sign in with username and password
+ * @access  Public
+ */
+router.post('/login', login);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the current session
+ * @access  Public
+ */
+router.post('/logout', logout);
+
+/**
+ * @route   GET /api/auth/me
+ * @desc    Get the signed-in user
+ * @access  Private
+ */
+router.get('/me', protect, getMe);
+
+export default router;
@@ -1,15 +1,79 @@
 import express from 'express';
 import claudeService from '../services/claudeService.js';
+import { protect } from '../middleware/authMiddleware.js';
+import { requireUsageQuota } from '../middleware/usageMiddleware.js';
+import { refuseFullQueue, requireQueueSpace } from '../middleware/queueMiddleware.js';
+import { QueueFullError } from '../services/requestQueue.js';
+import { loadOwnedCanvas } from '../middleware/ownershipMiddleware.js';
+import { openEventStream } from '../utils/sse.js';
+import { abortOnDisconnect } from '../utils/abort.js';
+import { validateGenerationSettings } from '../services/generationSettings.js';
 
 const router = express.Router();
 
+// Relay a streaming service call to the client as Server-Sent Events:
+// `queued` events carry the request's { position, etaSeconds } while it waits in the
+// request queue (position 0 once it starts), `delta` events carry answer text as it
+// arrives, `followUps` carries the follow-up questions once they are complete, and
+// `done` carries the full result, including `degraded` and `fallbackReason` when any
+// of it is fallback content and `cached` when it came from the response cache. Failures after the stream has opened are sent as an
+// `error` event; a full request queue before then is refused with 429 like requireQueueSpace.
+// Closing the stream takes a waiting request out of the queue.
+const relayStream = async (req, res, label, run) => {
+  const stream = openEventStream(req, res);
+  
+  try {
+    const result = await run({
+      onText: text => stream.send('delta', { text }),
+      onFollowUps: followUpQuestions => stream.send('followUps', { followUpQuestions }),
+      onQueued: status => stream.send('queued', status),
+      signal: stream.signal
+    });
+    
+    stream.send('done', result);
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log(`Streaming ${label} cancelled by client`);
+    } else if (error instanceof QueueFullError && !res.headersSent) {
+      refuseFullQueue(req, res, error.retryAfterSeconds);
+    } else {
+      console.error(`Error streaming ${label}:`, error.message);
+      stream.send('error', { error: `Failed to process ${label}` });
+    }
+  } finally {
+    stream.close();
+  }
+};
+
+// Reject requests whose generation settings (model, temperature, ...) are invalid
+const requireValidSettings = (req, res, next) => {
+  const errors = validateGenerationSettings(req.body?.settings);
+  
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: `Invalid generation settings: ${errors.join('; ')}`
+    });
+  }
+  
+  next();
+};
+
+// Who the tokens used by a request are recorded against: the signed-in user and,
+// when the client sends one the user owns, the canvas the request was made from
+const usageAccount = (req) => ({
+  userId: req.user._id.toString(),
+  canvasId: req.canvas ? req.body.canvasId : undefined
+});
+
+// Clients set `bypassCache` to get a freshly generated response instead of a cached one
+const cacheOptions = (req) => ({ bypassCache: req.body?.bypassCache === true });
+
 // Middleware to log requests
 router.use((req, res, next) => {
   console.log('Request:', {
     method: req.method,
     url: req.url,
-    origin: req.headers.origin,
-    headers: req.headers
+    origin: req.headers.origin
   });
   next();
 });
@@ -46,14 +110,23 @@ router.get('/test', (req, res) => {
   }
 });
 
+// Everything below the test route requires a signed-in user
+router.use(protect);
+router.use(requireValidSettings);
+router.use(requireUsageQuota);
+router.use(requireQueueSpace);
+router.use(loadOwnedCanvas());
+
 /**
  * @route   POST /api/claude/query
  * @desc    Process initial query with Claude
- * @access  Public
+ * @access  Private
  */
 router.post('/query', async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
   try {
-    const { query } = req.body;
+    const { query, settings } = req.body;
     
     if (!query || typeof query !== 'string') {
       return res.status(400).json({
@@ -69,7 +142,7 @@ router.post('/query', async (req, res) => {
     });
     
     console.log('About to call claudeService.processInitialQuery');
-    const response = await claudeService.processInitialQuery(query);
+    const response = await claudeService.processInitialQuery(query, settings, usageAccount(req), { signal, ...cacheOptions(req) });
     
     // Log the response for debugging
     console.log('Response received from claudeService:', {
@@ -79,6 +152,14 @@ router.post('/query', async (req, res) => {
     
     return res.json(response);
   } catch (error) {
+    if (signal.aborted) {
+      return console.log('Query cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
     console.error('Error processing query:', error);
     console.error('Error details:', error.message);
     
@@ -86,19 +167,41 @@ router.post('/query', async (req, res) => {
       error: 'Failed to process query',
       details: error.message,
       mockData: true,
+      degraded: true,
+      fallbackReason: 'unavailable',
       ...claudeService.MOCK_DATA
     });
   }
 });
 
+/**
+ * @route   POST /api/claude/query/stream
+ * @desc    Stream the answer to an initial query as Server-Sent Events
+ * @access  Private
+ */
+router.post('/query/stream', async (req, res) => {
+  const { query, settings } = req.body;
+  
+  if (!query || typeof query !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid query format. Query must be a non-empty string.'
+    });
+  }
+  
+  console.log('Claude API streaming query received:', query);
+  await relayStream(req, res, 'query', handlers => claudeService.streamInitialQuery(query, handlers, settings, usageAccount(req), cacheOptions(req)));
+});
+
 /**
  * @route   POST /api/claude/follow-up
  * @desc    Process follow-up query with Claude
- * @access  Public
+ * @access  Private
  */
 router.post('/follow-up', async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
   try {
-    const { query, context } = req.body;
+    const { query, context, settings, documents } = req.body;
     
     if (!query || typeof query !== 'string') {
       return res.status(400).json({
@@ -112,30 +215,84 @@ router.post('/follow-up', async (req, res) => {
       });
     }
     
+    if (documents !== undefined && !Array.isArray(documents)) {
+      return res.status(400).json({
+        error: 'Invalid documents format. Documents must be an array.'
+      });
+    }
+    
     console.log('Follow-up query received:', { query, contextLength: context.length });
-    const response = await claudeService.processFollowUpQuery(query, context);
+    const response = await claudeService.processFollowUpQuery(query, context, settings, usageAccount(req), {
+      signal,
+      ...cacheOptions(req),
+      documents
+    });
     
     return res.json(response);
   } catch (error) {
+    if (signal.aborted) {
+      return console.log('Follow-up query cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
     console.error('Error processing follow-up query:', error);
     
     return res.status(500).json({
       error: 'Failed to process follow-up query',
       details: error.message,
       mockData: true,
+      degraded: true,
+      fallbackReason: 'unavailable',
       ...claudeService.MOCK_DATA
     });
   }
 });
 
+/**
+ * @route   POST /api/claude/follow-up/stream
+ * @desc    Stream the answer to a follow-up query as Server-Sent Events
+ * @access  Private
+ */
+router.post('/follow-up/stream', async (req, res) => {
+  const { query, context, settings, documents } = req.body;
+  
+  if (!query || typeof query !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid query format. Query must be a non-empty string.'
+    });
+  }
+  
+  if (!Array.isArray(context)) {
+    return res.status(400).json({
+      error: 'Invalid context format. Context must be an array.'
+    });
+  }
+  
+  if (documents !== undefined && !Array.isArray(documents)) {
+    return res.status(400).json({
+      error: 'Invalid documents format. Documents must be an array.'
+    });
+  }
+  
+  console.log('Streaming follow-up query received:', { query, contextLength: context.length });
+  await relayStream(req, res, 'follow-up query', handlers =>
+    claudeService.streamFollowUpQuery(query, context, handlers, settings, usageAccount(req), { ...cacheOptions(req), documents })
+  );
+});
+
 /**
  * @route   POST /api/claude/synthesize
  * @desc    Synthesize insights from multiple nodes
- * @access  Public
+ * @access  Private
  */
 router.post('/synthesize', async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
   try {
-    const { contexts, customPrompt } = req.body;
+    const { contexts, customPrompt, settings } = req.body;
     
     if (!Array.isArray(contexts)) {
       return res.status(400).json({
@@ -148,10 +305,18 @@ router.post('/synthesize', async (req, res) => {
       hasCustomPrompt: !!customPrompt
     });
     
-    const response = await claudeService.synthesize(contexts, customPrompt);
+    const response = await claudeService.synthesize(contexts, customPrompt, settings, usageAccount(req), { signal, ...cacheOptions(req) });
     
     return res.json(response);
   } catch (error) {
+    if (signal.aborted) {
+      return console.log('Synthesis cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
     console.error('Error synthesizing insights:', error);
     
     return res.status(500).json({
@@ -164,11 +329,13 @@ router.post('/synthesize', async (req, res) => {
 /**
  * @route   POST /api/claude/topic
  * @desc    Process topic explanation with Claude
- * @access  Public
+ * @access  Private
  */
 router.post('/topic', async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
   try {
-    const { topic, context } = req.body;
+    const { topic, context, settings } = req.body;
     
     if (!topic || typeof topic !== 'string') {
       return res.status(400).json({
@@ -183,18 +350,102 @@ router.post('/topic', async (req, res) => {
     }
     
     console.log('Topic explanation request received:', { topic, contextLength: context.length });
-    const response = await claudeService.processTopic(topic, context);
+    const response = await claudeService.processTopic(topic, context, settings, usageAccount(req), { signal, ...cacheOptions(req) });
     
     return res.json(response);
   } catch (error) {
+    if (signal.aborted) {
+      return console.log('Topic explanation cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
     console.error('Error processing topic explanation:', error);
     
     return res.status(500).json({
       error: 'Failed to process topic explanation',
       details: error.message,
-      explanation: `Failed to generate explanation for "${req.body?.topic || 'unknown topic'}". Please try again later.`
+      explanation: `Failed to generate explanation for "${req.body?.topic || 'unknown topic'}". Please try again later.`,
+      degraded: true,
+      fallbackReason: 'unavailable'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/claude/topic/stream
+ * @desc    Stream a topic explanation as Server-Sent Events
+ * @access  Private
+ */
+router.post('/topic/stream', async (req, res) => {
+  const { topic, context, settings } = req.body;
+  
+  if (!topic || typeof topic !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid topic format. Topic must be a non-empty string.'
+    });
+  }
+  
+  if (!Array.isArray(context)) {
+    return res.status(400).json({
+      error: 'Invalid context format. Context must be an array.'
+    });
+  }
+  
+  console.log('Streaming topic explanation request received:', { topic, contextLength: context.length });
+  await relayStream(req, res, 'topic explanation', handlers =>
+    claudeService.streamTopic(topic, context, handlers, settings, usageAccount(req), cacheOptions(req))
+  );
+});
+
+// Longest node text topics are picked out of, so one request can't send a whole document
+const MAX_TOPIC_TEXT_LENGTH = 20000;
+
+/**
+ * @route   POST /api/claude/topics
+ * @desc    Find the key concepts of a node's text as character spans
+ * @access  Private
+ */
+router.post('/topics', async (req, res) => {
+  const signal = abortOnDisconnect(req, res);
+  
+  try {
+    const { text, settings } = req.body;
+    
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid text format. Text must be a non-empty string.'
+      });
+    }
+    
+    if (text.length > MAX_TOPIC_TEXT_LENGTH) {
+      return res.status(400).json({
+        error: `Text is too long. Topics are only found in texts of up to ${MAX_TOPIC_TEXT_LENGTH} characters.`
+      });
+    }
+    
+    console.log('Topic extraction request received:', { textLength: text.length });
+    const response = await claudeService.extractTopics(text, settings, usageAccount(req), { signal, ...cacheOptions(req) });
+    
+    return res.json(response);
+  } catch (error) {
+    if (signal.aborted) {
+      return console.log('Topic extraction cancelled by client');
+    }
+    
+    if (error instanceof QueueFullError) {
+      return refuseFullQueue(req, res, error.retryAfterSeconds);
+    }
+    
+    console.error('Error extracting topics:', error);
+    
+    return res.status(500).json({
+      error: 'Failed to extract topics',
+      details: error.message
     });
   }
 });
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -1,9 +1,11 @@
 import express from 'express';
 import { protect } from '../middleware/authMiddleware.js';
+import { requireCanvasOwner } from '../middleware/ownershipMiddleware.js';
 import upload from '../middleware/fileUpload.js';
 import { 
   updateNodeContent, 
   addAttachment, 
+  updateAttachment,
   removeAttachment,
   addSource,
   removeSource
@@ -11,14 +13,16 @@ import {
 
 const router = express.Router();
 
-// All routes are protected by auth middleware
+// All routes are protected by auth middleware and limited to the canvas owner
 router.use(protect);
+router.use('/canvas/:canvasId', requireCanvasOwner());
 
 // Update node content
 router.put('/canvas/:canvasId/node/:nodeId/content', updateNodeContent);
 
 // Attachment routes
 router.post('/canvas/:canvasId/node/:nodeId/attachment', upload.single('file'), addAttachment);
+router.patch('/canvas/:canvasId/node/:nodeId/attachment/:attachmentIndex', updateAttachment);
 router.delete('/canvas/:canvasId/node/:nodeId/attachment/:attachmentIndex', removeAttachment);
 
 // Source routes
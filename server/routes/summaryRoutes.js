@@ -1,5 +1,8 @@
 import express from 'express';
 import { protect } from '../middleware/authMiddleware.js';
+import { requireCanvasOwner } from '../middleware/ownershipMiddleware.js';
+import { requireUsageQuota } from '../middleware/usageMiddleware.js';
+import { requireQueueSpace } from '../middleware/queueMiddleware.js';
 import { 
   generateSummary,
   getSummaries,
@@ -8,11 +11,12 @@ import {
 
 const router = express.Router();
 
-// All routes are protected by auth middleware
+// All routes are protected by auth middleware and limited to the canvas owner
 router.use(protect);
+router.use('/canvas/:canvasId', requireCanvasOwner());
 
-// Generate a summary for a canvas
-router.post('/canvas/:canvasId/summary', generateSummary);
+// Generate a summary for a canvas, which uses the user's LLM quota and queue
+router.post('/canvas/:canvasId/summary', requireUsageQuota, requireQueueSpace, generateSummary);
 
 // Get all summaries for a canvas
 router.get('/canvas/:canvasId/summary', getSummaries);
@@ -0,0 +1,14 @@
+import express from 'express';
+import { protect } from '../middleware/authMiddleware.js';
+import { getUsage } from '../controllers/usageController.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/usage
+ * @desc    Get the signed-in user's token usage, per period and per canvas, with their quotas
+ * @access  Private
+ */
+router.get('/', protect, getUsage);
+
+export default router;
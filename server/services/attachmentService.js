@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { uploadDir } from '../middleware/fileUpload.js';
+import { createResponseCache } from './responseCache.js';
+
+// Load environment variables
+dotenv.config();
+
+// Images are sent to the model as they are; every other upload has its text extracted
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
+// Characters of text kept from each document, so one long file can't take over the prompt
+const MAX_TEXT_LENGTH = (Number(process.env.ATTACHMENT_MAX_TOKENS) || 8000) * 4;
+
+// Uploads are stored under new names and never rewritten, so extracted text is cached by path
+const textCache = createResponseCache({ ttlMs: 24 * 60 * 60 * 1000, maxEntries: 200 });
+
+// Extract the text of a document upload
+const extractText = async (filePath, fileType) => {
+  switch (fileType) {
+    case 'application/pdf': {
+      const parser = new PDFParse({ data: await fs.readFile(filePath) });
+      try {
+        return (await parser.getText({ pageJoiner: '' })).text;
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return (await mammoth.extractRawText({ path: filePath })).value;
+    case 'text/plain':
+    case 'text/markdown':
+      return fs.readFile(filePath, 'utf8');
+    default:
+      throw new Error(`Text can't be extracted from ${fileType} files`);
+  }
+};
+
+// Read a document's text, extracting it only the first time
+const readText = async (filePath, fileType) => {
+  const cached = textCache.get(filePath);
+  if (cached) {
+    return cached.value;
+  }
+
+  const text = (await extractText(filePath, fileType)).trim();
+  textCache.set(filePath, text);
+  return text;
+};
+
+// Resolve an attachment's file, which must be one of the user's own uploads
+const resolveUpload = (filePath, userId) => {
+  const resolved = path.resolve(String(filePath));
+  const userDir = path.join(uploadDir, String(userId));
+  return resolved.startsWith(`${userDir}${path.sep}`) ? resolved : null;
+};
+
+// Resolve an attachment's file, failing unless it is one of the user's own uploads
+const resolveAttachment = ({ filePath }, userId) => {
+  const resolved = resolveUpload(filePath, userId);
+  if (!resolved) {
+    throw new Error('Attachment is not one of the user\'s uploads');
+  }
+  return resolved;
+};
+
+/**
+ * Read the text of a document attachment
+ * @param {Object} attachment - { fileName, fileType, filePath }
+ * @param {string} userId - The user making the request; only their own uploads are read
+ * @param {number} maxLength - Characters of text to keep
+ * @returns {Promise<string|null>} - The text, or null for an image
+ */
+export const readAttachmentText = async (attachment, userId, maxLength = MAX_TEXT_LENGTH) => {
+  const resolved = resolveAttachment(attachment, userId);
+  if (IMAGE_TYPES.includes(attachment.fileType)) {
+    return null;
+  }
+
+  const text = await readText(resolved, attachment.fileType);
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n[...truncated]` : text;
+};
+
+// Load one attachment as text for the prompt, or as an image with a line naming it
+const loadAttachment = async (attachment, userId) => {
+  const { fileName, fileType } = attachment;
+
+  if (IMAGE_TYPES.includes(fileType)) {
+    const data = (await fs.readFile(resolveAttachment(attachment, userId))).toString('base64');
+    return { text: `Attached image "${fileName}".`, image: { fileName, mediaType: fileType, data } };
+  }
+
+  return { text: `Attached file "${fileName}":\n\n${await readAttachmentText(attachment, userId)}` };
+};
+
+// Add a turn's attachments to its content
+const loadTurnAttachments = async (turn, attachments, userId) => {
+  if (attachments.length === 0) {
+    return turn;
+  }
+
+  const texts = [];
+  const images = [];
+  const attachmentNames = [];
+
+  for (const attachment of attachments) {
+    try {
+      const { text, image } = await loadAttachment(attachment, userId);
+      texts.push(text);
+      if (image) images.push(image);
+      attachmentNames.push(attachment.fileName);
+    } catch (error) {
+      console.error(`Failed to load attachment "${attachment.fileName}", leaving it out:`, error.message);
+    }
+  }
+
+  return {
+    ...turn,
+    content: [turn.content, ...texts].filter(Boolean).join('\n\n'),
+    ...(images.length > 0 && { images }),
+    ...(attachmentNames.length > 0 && { attachmentNames })
+  };
+};
+
+/**
+ * Load the attachments referenced by conversation turns. Each attachment's text, or a line
+ * naming an attached image, is added to its turn's content, and images are kept for sending
+ * as image content. Attachments that can't be read are left out.
+ * @param {Array<Object>} turns - Conversation turns, which may list attachments as
+ *   { fileName, fileType, filePath }
+ * @param {string} userId - The user making the request; only their own uploads are read
+ * @returns {Promise<Array<Object>>} - Turns with content, images and the names of the
+ *   attachments they include
+ */
+export const loadAttachments = async (turns, userId) => {
+  const loaded = await Promise.all(turns.map(({ attachments = [], ...turn }) => loadTurnAttachments(turn, attachments, userId)));
+  // A turn that only held attachments is dropped when none of them could be read
+  return loaded.filter(turn => turn.content);
+};
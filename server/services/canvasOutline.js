@@ -0,0 +1,138 @@
+import { estimateTokens } from './usageService.js';
+
+// What a node adds to the map as one line of text, or null when it adds nothing worth
+// summarizing: placeholder (degraded) text, empty nodes, follow-up questions never asked and
+// syntheses, which only restate other nodes.
+// A response only repeats its query when the question isn't a follow-up node of its own.
+const nodeText = (node, hasChildren, parent) => {
+  const data = node.data || {};
+  if (data.degraded) {
+    return null;
+  }
+
+  const lines = [];
+  switch (node.type) {
+    case 'response':
+      if (data.query && parent?.type !== 'followUp') lines.push(`Question: ${data.query}`);
+      if (data.content || node.content) lines.push(`Answer: ${data.content || node.content}`);
+      break;
+    case 'followUp':
+      if (hasChildren || data.hasBeenAnswered) {
+        lines.push(`Question: ${data.question || node.content}`);
+        if (data.hasBeenAnswered && data.answer) lines.push(`Answer: ${data.answer}`);
+      }
+      break;
+    case 'topic':
+      if (data.topic && (data.explanation || node.content)) {
+        lines.push(`Topic "${data.topic}": ${data.explanation || node.content}`);
+      }
+      break;
+  }
+
+  return lines.length > 0 ? lines.join(' / ').replace(/\s*\n\s*/g, ' ') : null;
+};
+
+/**
+ * Build a canvas's nodes into trees along its edges, keeping only the nodes with something to
+ * summarize. A node left out still passes its children up to its parent.
+ * @param {Object} canvas - The canvas, with nodes and edges
+ * @param {number} maxLineLength - Characters kept of each node's text
+ * @returns {Array<Object>} - The root trees, each { id, text, tokens, subtreeTokens, children },
+ *   with children in canvas order
+ */
+export const buildOutline = (canvas, maxLineLength) => {
+  const nodes = canvas.nodes || [];
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const parents = new Map();
+  const children = new Map();
+
+  for (const edge of canvas.edges || []) {
+    // A node with several parents is only outlined under the first. Provenance edges join a
+    // synthesis to its sources rather than a child to its parent.
+    if (edge.type !== 'provenance' && nodeIds.has(edge.source) && nodeIds.has(edge.target) && !parents.has(edge.target)) {
+      parents.set(edge.target, edge.source);
+      children.set(edge.source, [...(children.get(edge.source) || []), edge.target]);
+    }
+  }
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const visited = new Set();
+
+  // The trees a node stands for: itself, or its children's when it has nothing to add
+  const build = (id) => {
+    if (visited.has(id)) {
+      return [];
+    }
+    visited.add(id);
+
+    const childIds = children.get(id) || [];
+    const subtrees = childIds.flatMap(build);
+    const text = nodeText(byId.get(id), childIds.length > 0, byId.get(parents.get(id)));
+    if (!text) {
+      return subtrees;
+    }
+
+    const line = text.length > maxLineLength ? `${text.slice(0, maxLineLength - 3)}...` : text;
+    const tokens = estimateTokens(line);
+    return [{
+      id,
+      text: line,
+      tokens,
+      subtreeTokens: subtrees.reduce((total, subtree) => total + subtree.subtreeTokens, tokens),
+      children: subtrees
+    }];
+  };
+
+  return nodes.filter(node => !parents.has(node.id)).flatMap(node => build(node.id));
+};
+
+// A tree's nodes in order, each { id, text, depth }
+const flatten = (tree, depth) => [
+  { id: tree.id, text: tree.text, depth },
+  ...tree.children.flatMap(child => flatten(child, depth + 1))
+];
+
+/**
+ * Split an outline into chunks that each fit a token budget. Whole branches are kept
+ * together where they fit; a branch too large for one chunk is split into its node and its
+ * own branches.
+ * @param {Array<Object>} trees - The outline from buildOutline
+ * @param {number} maxTokens - Tokens of node text per chunk
+ * @returns {Array<Array<Object>>} - The chunks, each a list of { id, text, depth } in map order
+ */
+export const chunkOutline = (trees, maxTokens) => {
+  const chunks = [];
+  let current = [];
+  let currentTokens = 0;
+
+  const add = (entries, tokens) => {
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(...entries);
+    currentTokens += tokens;
+  };
+
+  const visit = (tree, depth) => {
+    if (tree.subtreeTokens <= maxTokens) {
+      add(flatten(tree, depth), tree.subtreeTokens);
+      return;
+    }
+    add([{ id: tree.id, text: tree.text, depth }], tree.tokens);
+    tree.children.forEach(child => visit(child, depth + 1));
+  };
+
+  trees.forEach(tree => visit(tree, 0));
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+// Outline entries as indented lines, one node per line under the node it came from
+export const formatOutline = (entries) => {
+  const minDepth = Math.min(...entries.map(entry => entry.depth));
+  return entries.map(({ depth, text }) => `${'  '.repeat(depth - minDepth)}- ${text}`).join('\n');
+};
@@ -1,31 +1,23 @@
 import axios from 'axios';
-import dotenv from 'dotenv';
-
-// Load environment variables
-dotenv.config();
-
-// Claude API base URL
-const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
-
-// Claude API key
-const CLAUDE_API_KEY = process.env.ANTHROPIC_API_KEY;
+import provider from './llm/index.js';
+import { ANSWER_SCHEMA, EXPLANATION_SCHEMA, SYNTHESIS_SCHEMA, TOPICS_SCHEMA, validateAgainstSchema } from './llm/schemas.js';
+import { requestStructured, StructuredOutputError } from './llm/structuredOutput.js';
+import prompts from './promptRegistry.js';
+import { ANSWER_LENGTHS, pickGenerationSettings, resolveGenerationSettings } from './generationSettings.js';
+import usageService, { estimateTokens, estimateUsage } from './usageService.js';
+import requestQueue, { QueueFullError } from './requestQueue.js';
+import responseCache, { getCacheKey } from './responseCache.js';
+import { buildConversation, fitContext, formatTurns, toTurns } from './contextService.js';
+import { loadAttachments } from './attachmentService.js';
+import { findCitations, formatDocuments, loadDocuments } from './groundingService.js';
+import { buildOutline, chunkOutline, formatOutline } from './canvasOutline.js';
+import { findTopicSpans } from './topicSpans.js';
 
 // Constants
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds base delay
 const RETRY_STATUS_CODES = [429, 500, 502, 503, 504, 529]; // Status codes that should trigger a retry
 
-// Constants for rate limiting
-const RATE_LIMIT = 4000; // tokens per minute
-const RATE_LIMIT_WINDOW = 60000; // 1 minute in milliseconds
-let tokenUsage = 0;
-let lastResetTime = Date.now();
-
-// Check if API key is available
-if (!CLAUDE_API_KEY) {
-  console.error('Claude API key not found. Please set ANTHROPIC_API_KEY in your .env file.');
-}
-
 // Mock data for fallback
 const MOCK_DATA = {
   answer: "This is a mock response. The Claude API is currently unavailable. Please try again later.",
@@ -36,61 +28,184 @@ const MOCK_DATA = {
   ]
 };
 
-// Helper function to delay execution
-const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+// Reasons reported with fallback content so clients can tell it apart from a real answer
+const FALLBACK_REASONS = {
+  MISSING_API_KEY: 'missing_api_key',
+  RATE_LIMITED: 'rate_limited',
+  OVERLOADED: 'overloaded',
+  INVALID_OUTPUT: 'invalid_output',
+  UNAVAILABLE: 'unavailable'
+};
+
+// Helper function to tell whether a call failed because it was cancelled
+const isCancellation = (error, signal) => (
+  axios.isCancel(error) || error.name === 'AbortError' || !!signal?.aborted
+);
 
-// Helper function to check and update rate limit
-const checkRateLimit = (requestTokens = 1000) => {
-  const now = Date.now();
-  if (now - lastResetTime >= RATE_LIMIT_WINDOW) {
-    // Reset token usage after window expires
-    tokenUsage = 0;
-    lastResetTime = now;
+// Helper function to delay execution; an aborted signal cuts the wait short
+const delay = (ms, signal) => new Promise((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    const error = new Error('Request cancelled');
+    error.name = 'AbortError';
+    reject(error);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
   }
-  
-  if (tokenUsage + requestTokens > RATE_LIMIT) {
-    const waitTime = RATE_LIMIT_WINDOW - (now - lastResetTime);
-    throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
+});
+
+// Helper function to account for the tokens a call used: they are charged to the
+// call's turn in the request queue and, when the call was made for a user, recorded
+// against their usage. Providers that report no usage are charged an estimate.
+const recordCallUsage = async (account, request, response, turn) => {
+  const usage = response.usage
+    ? { inputTokens: response.usage.inputTokens, outputTokens: response.usage.outputTokens, estimated: false }
+    : estimateUsage(request, response.text);
+
+  turn.charge(usage.inputTokens + usage.outputTokens);
+
+  if (account?.userId) {
+    await usageService.recordUsage({
+      userId: account.userId,
+      canvasId: account.canvasId,
+      operation: account.operation,
+      provider: provider.name,
+      model: request.model || provider.model,
+      ...usage
+    });
   }
-  
-  tokenUsage += requestTokens;
 };
 
-// Helper function to make API call with retries
-const makeClaudeAPICall = async (messages, retryCount = 0) => {
+// Helper function to decide whether a failed API call is worth retrying
+const isRetryableError = (error) => (
+  (error.response?.status === 529) ||
+  (error.response?.data?.error?.type === 'overloaded_error') ||
+  (error.response?.headers?.['x-should-retry'] === 'true') ||
+  RETRY_STATUS_CODES.includes(error.response?.status) ||
+  error.code === 'ECONNRESET' ||
+  error.code === 'ETIMEDOUT' ||
+  error.message.includes('timeout')
+);
+
+// Helper function to work out why a call failed and its result had to be replaced
+const getFallbackReason = (error) => {
+  const status = error.response?.status;
+
+  if (error.code === 'MISSING_API_KEY' || status === 401 || status === 403) {
+    return FALLBACK_REASONS.MISSING_API_KEY;
+  }
+  if (error.code === 'QUEUE_FULL' || status === 429) {
+    return FALLBACK_REASONS.RATE_LIMITED;
+  }
+  if (status === 529 || error.response?.data?.error?.type === 'overloaded_error') {
+    return FALLBACK_REASONS.OVERLOADED;
+  }
+  if (error instanceof StructuredOutputError) {
+    return FALLBACK_REASONS.INVALID_OUTPUT;
+  }
+  return FALLBACK_REASONS.UNAVAILABLE;
+};
+
+// Fields added to every fallback result
+const degradedResult = (fallbackReason) => ({ degraded: true, fallbackReason });
+
+// Render prompt templates into one message, keeping the template versions used
+const renderPrompt = (...parts) => {
+  const rendered = parts.map(([name, variables]) => prompts.render(name, variables));
+  return {
+    text: rendered.map(part => part.text).join('\n\n'),
+    promptTemplates: rendered.map(part => part.template)
+  };
+};
+
+// Messages for a rendered prompt: the system message, the conversation it continues, if any,
+// and the prompt itself as the last user turn
+const promptMessages = (systemMessage, prompt) => [
+  { role: 'system', content: systemMessage },
+  ...buildConversation(prompt.conversation || [], prompt.text)
+];
+
+// Split a message list into the system prompt and the conversation turns
+const splitSystemMessage = (messages) => ({
+  system: messages.find(m => m.role === 'system')?.content,
+  messages: messages.filter(m => m.role !== 'system')
+});
+
+// Helper function to key a response in the cache by the provider, the generation options,
+// the prompt template versions, the conversation and the rendered prompt
+const responseCacheKey = (operation, prompt, { model, temperature, maxTokens }) => getCacheKey({
+  operation,
+  provider: provider.name,
+  model: model || provider.model,
+  temperature,
+  maxTokens,
+  promptTemplates: prompt.promptTemplates,
+  conversation: prompt.conversation || [],
+  prompt: prompt.text
+});
+
+// Helper function to serve a response from the cache, calling onHit with it, or to
+// generate and cache it. Bypassing the cache still stores the new response, and
+// fallback results are never stored. Cached responses use no tokens.
+const withResponseCache = async (key, bypassCache, generate, onHit) => {
+  if (!bypassCache) {
+    const hit = responseCache.get(key);
+    if (hit) {
+      console.log('Serving LLM response from cache');
+      onHit?.(hit.value);
+      return { ...hit.value, cached: true, cachedAt: hit.cachedAt };
+    }
+  }
+
+  const result = await generate();
+  if (!result.degraded) {
+    responseCache.set(key, result);
+  }
+  return result;
+};
+
+// Helper function to wait for a turn in the request queue for the account's user
+const waitForTurn = (account, { onQueued, signal }) => requestQueue.acquire(account?.userId || 'anonymous', {
+  onQueued,
+  signal
+});
+
+// Helper function to make API call with retries; resolves with { text, data?, usage? }.
+// `account` ({ userId, canvasId, operation }) says whose usage the call is recorded against
+// and whose line in the request queue the call waits in.
+const makeClaudeAPICall = async (messages, { maxTokens = 1000, model, temperature, schema, account, signal } = {}, retryCount = 0) => {
   try {
-    console.log('Making Claude API call:', {
+    console.log('Making LLM API call:', {
+      provider: provider.name,
       retryCount,
       messageCount: messages.length,
       firstMessageLength: messages[0].content.length
     });
 
-    // Check rate limit before making request
-    checkRateLimit();
-
-    // Extract system message if present
-    const systemMessage = messages.find(m => m.role === 'system')?.content;
-    const userMessages = messages.filter(m => m.role !== 'system');
-
-    const response = await axios.post(
-      CLAUDE_API_URL,
-      {
-        model: 'claude-3-opus-20240229',
-        max_tokens: 1000,
-        system: systemMessage,
-        messages: userMessages
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': CLAUDE_API_KEY,
-          'anthropic-version': '2023-06-01'
-        }
-      }
-    );
+    const turn = await waitForTurn(account, { signal });
 
-    return response;
+    try {
+      const request = { ...splitSystemMessage(messages), maxTokens, model, temperature, schema, signal };
+      const response = await provider.complete(request);
+      await recordCallUsage(account, request, response, turn);
+      return response;
+    } finally {
+      turn.release();
+    }
   } catch (error) {
+    // A cancelled call is never retried
+    if (isCancellation(error, signal)) {
+      throw error;
+    }
+
     console.error(`API call attempt ${retryCount + 1} failed:`, {
       error: error.message,
       response: error.response?.data,
@@ -99,142 +214,425 @@ const makeClaudeAPICall = async (messages, retryCount = 0) => {
     });
 
     // Check if we should retry based on error
-    const shouldRetry = (
-      retryCount < MAX_RETRIES && 
-      (
-        (error.response?.status === 529) ||
-        (error.response?.data?.error?.type === 'overloaded_error') ||
-        (error.response?.headers?.['x-should-retry'] === 'true') ||
-        RETRY_STATUS_CODES.includes(error.response?.status) ||
-        error.code === 'ECONNRESET' ||
-        error.code === 'ETIMEDOUT' ||
-        error.message.includes('timeout')
-      )
-    );
+    const shouldRetry = retryCount < MAX_RETRIES && isRetryableError(error);
 
     if (shouldRetry) {
       const backoffDelay = RETRY_DELAY * Math.pow(2, retryCount);
       const errorType = error.response?.status === 529 ? 'Service overloaded' : 'Network error';
       console.log(`${errorType}. Retrying in ${backoffDelay}ms... (Attempt ${retryCount + 1}/${MAX_RETRIES})`);
-      await delay(backoffDelay);
-      return makeClaudeAPICall(messages, retryCount + 1);
+      await delay(backoffDelay, signal);
+      return makeClaudeAPICall(messages, { maxTokens, model, temperature, schema, account, signal }, retryCount + 1);
     }
     
     throw error;
   }
 };
 
+// Structured replies are returned through a tool call whose input matches the schema
+const STRUCTURED_SYSTEM_MESSAGE = 'You are a thoughtful assistant helping the user explore ideas in a mind map. Always respond by calling the provided tool.';
+
+// Helper function to request schema-validated output. When a reply fails
+// validation, the model is shown its reply and the problems and asked again.
+// Every attempt counts towards the account's usage.
+const generateStructured = (messages, schema, { maxTokens = 1000, model, temperature, account, signal } = {}) => requestStructured(
+  conversation => makeClaudeAPICall(conversation, { maxTokens, model, temperature, schema, account, signal }),
+  messages,
+  schema
+);
+
+// Helper function to stream a completion, calling onText for every text delta, and
+// resolve with the full text. Usage is recorded as for makeClaudeAPICall, and
+// onQueued reports the call's place in the request queue while it waits.
+// Retries follow the same rules as makeClaudeAPICall, but only until the first
+// token has been relayed; after that a failure is passed on to the caller.
+const streamClaudeAPICall = async (messages, onText, { maxTokens = 1000, model, temperature, account, onQueued, signal } = {}, retryCount = 0) => {
+  let receivedText = false;
+
+  try {
+    console.log('Making streaming LLM API call:', {
+      provider: provider.name,
+      retryCount,
+      messageCount: messages.length
+    });
+
+    const turn = await waitForTurn(account, { onQueued, signal });
+
+    try {
+      const request = { ...splitSystemMessage(messages), maxTokens, model, temperature, signal };
+      const response = await provider.stream(request, text => {
+        receivedText = true;
+        onText(text);
+      });
+      await recordCallUsage(account, request, response, turn);
+      return response.text;
+    } finally {
+      turn.release();
+    }
+  } catch (error) {
+    if (isCancellation(error, signal)) {
+      throw error;
+    }
+
+    console.error(`Streaming API call attempt ${retryCount + 1} failed:`, {
+      error: error.message,
+      status: error.response?.status
+    });
+
+    const shouldRetry = !receivedText && retryCount < MAX_RETRIES && isRetryableError(error);
+
+    if (shouldRetry) {
+      const backoffDelay = RETRY_DELAY * Math.pow(2, retryCount);
+      console.log(`Retrying stream in ${backoffDelay}ms... (Attempt ${retryCount + 1}/${MAX_RETRIES})`);
+      await delay(backoffDelay, signal);
+      return streamClaudeAPICall(messages, onText, { maxTokens, model, temperature, account, onQueued, signal }, retryCount + 1);
+    }
+
+    // Let callers know whether part of the answer already reached the client
+    error.partialResponse = receivedText;
+    throw error;
+  }
+};
+
+// Streamed replies are shown as they arrive, so they are plain text rather than JSON
+const STREAMING_SYSTEM_MESSAGE = 'You are a thoughtful assistant helping the user explore ideas in a mind map.';
+
+// Marker the model writes between the streamed answer and the follow-up questions
+const FOLLOW_UP_MARKER = '<<<FOLLOW_UP_QUESTIONS>>>';
+
+// Format instructions for answers, following the canvas's answer length and follow-up count
+const answerFormat = (generation) => ['answer-format', {
+  answerLength: ANSWER_LENGTHS[generation.answerLength],
+  followUpCount: generation.followUpCount
+}];
+
+// Format instructions for streamed answers: prose first, structured questions last
+const streamingAnswerFormat = (generation) => ['answer-format-stream', {
+  answerLength: ANSWER_LENGTHS[generation.answerLength],
+  followUpCount: generation.followUpCount,
+  marker: FOLLOW_UP_MARKER
+}];
+
+// Number the documents a grounded answer may cite and the prompt part listing them. Canvases
+// that aren't grounded, or have nothing to cite, get plain answers.
+const groundAnswer = async (generation, documents, account) => {
+  const numbered = generation.grounded ? await loadDocuments(documents, account?.userId) : [];
+  return {
+    documents: numbered,
+    promptParts: numbered.length > 0 ? [['grounding', { documents: formatDocuments(numbered) }]] : []
+  };
+};
+
+// The documents a grounded answer cites, for showing its citation markers as references
+const withCitations = (response, documents) => (documents.length > 0
+  ? { ...response, citations: findCitations(response.answer, documents) }
+  : response);
+
+// Options passed to the provider for every call made with these settings
+const callOptions = (generation) => ({
+  maxTokens: generation.maxTokens,
+  model: generation.model,
+  temperature: generation.temperature
+});
+
+// Summarizer for fitContext: folds older turns into the summary of those before them
+const summarizeAncestors = (generation, account, signal) => async (previousSummary, turns, maxTokens) => {
+  const prompt = renderPrompt(['context-summary', {
+    previousSummary: previousSummary ? `Summary so far: ${previousSummary}` : '',
+    ancestors: formatTurns(turns),
+    maxWords: Math.floor(maxTokens * 0.75)
+  }]);
+  const response = await makeClaudeAPICall([{ role: 'user', content: prompt.text }], {
+    maxTokens,
+    model: generation.model,
+    account: { ...account, operation: 'context-summary' },
+    signal
+  });
+  return response.text.trim();
+};
+
+// Load the attachments on a node's ancestor path and fit the conversation into the canvas's
+// context budget, summarizing older turns if needed
+const buildContext = async (context, generation, account, signal) => fitContext(
+  await loadAttachments(toTurns(context), account?.userId),
+  generation.contextBudget,
+  summarizeAncestors(generation, account, signal),
+  signal
+);
+
+// Helper function to key a response to a node's ancestor context by the context as the client
+// sent it and the budget it is fitted into, so a cache hit needs no summarizing. Attachments are
+// only read from the requesting user's uploads, so a context that references any is also keyed
+// by the user: nobody is served an answer written from another user's files.
+const contextResponseCacheKey = (operation, prompt, context, generation, account) => {
+  const hasAttachments = toTurns(context).some(turn => turn.attachments?.length > 0);
+  return responseCacheKey(
+    operation,
+    {
+      ...prompt,
+      conversation: {
+        ancestors: context,
+        budget: generation.contextBudget,
+        ...(hasAttachments && { userId: account?.userId })
+      }
+    },
+    callOptions(generation)
+  );
+};
+
+// Canvas summary styles: the title each summary gets and what the model is asked to write
+export const SUMMARY_STYLES = {
+  brief: {
+    label: 'Executive brief',
+    instructions: 'an executive brief: a few short paragraphs on what was explored, the main conclusions and what they mean'
+  },
+  outline: {
+    label: 'Detailed outline',
+    instructions: 'a detailed outline: a nested list of the themes explored, with the key points and conclusions under each'
+  },
+  questions: {
+    label: 'Open questions',
+    instructions: 'a list of the open questions the exploration raised or left unresolved, grouped by theme, each with a line on why it matters'
+  }
+};
+
+// Tokens a synthesis may use unless its canvas sets maxTokens, since it covers several nodes
+const SYNTHESIS_MAX_TOKENS = 4000;
+
+// Tokens of map text summarized in one call; larger maps are summarized part by part
+const SUMMARY_CHUNK_TOKENS = Number(process.env.SUMMARY_CHUNK_TOKENS) || 3000;
+
+// Tokens of the notes written on each part of a large map
+const SUMMARY_NOTES_TOKENS = 500;
+
+// Group notes into as few prompts as fit the chunk budget, at least two notes per group so
+// every round of merging shrinks them
+const groupNotes = (notes) => {
+  const groups = [];
+  for (const note of notes) {
+    const group = groups[groups.length - 1];
+    const tokens = group ? group.reduce((total, text) => total + estimateTokens(text), 0) : 0;
+    if (group && (group.length < 2 || tokens + estimateTokens(note) <= SUMMARY_CHUNK_TOKENS)) {
+      group.push(note);
+    } else {
+      groups.push([note]);
+    }
+  }
+  return groups;
+};
+
+// Write notes on each part of a large map (map), then merge the notes until they fit in one
+// prompt (reduce). Records the templates used in promptTemplates.
+const summarizeParts = async (title, chunks, { model, account, signal, promptTemplates }) => {
+  const maxWords = Math.floor(SUMMARY_NOTES_TOKENS * 0.75);
+  const complete = async (prompt) => {
+    promptTemplates.push(...prompt.promptTemplates);
+    const response = await makeClaudeAPICall([{ role: 'user', content: prompt.text }], {
+      maxTokens: SUMMARY_NOTES_TOKENS,
+      model,
+      account,
+      signal
+    });
+    return response.text.trim();
+  };
+
+  let notes = [];
+  for (const chunk of chunks) {
+    notes.push(await complete(renderPrompt(['canvas-summary-branch', { title, outline: formatOutline(chunk), maxWords }])));
+  }
+
+  while (notes.length > 1 && notes.reduce((total, note) => total + estimateTokens(note), 0) > SUMMARY_CHUNK_TOKENS) {
+    const merged = [];
+    for (const group of groupNotes(notes)) {
+      merged.push(group.length === 1
+        ? group[0]
+        : await complete(renderPrompt(['canvas-summary-merge', { title, notes: group.join('\n\n'), maxWords }])));
+    }
+    notes = merged;
+  }
+  return notes;
+};
+
+// The distinct templates used, in the order first used
+const uniqueTemplates = (templates) => templates.filter((template, index) =>
+  templates.findIndex(other => other.name === template.name && other.version === template.version) === index);
+
+// Split streamed text into the prose answer, which is relayed as it arrives, and the
+// structured tail after the marker, which is only parsed once the stream is complete
+const createAnswerSplitter = (onAnswerText) => {
+  let pending = '';
+  let tail = null;
+
+  const emit = (text) => {
+    if (text) onAnswerText(text);
+  };
+
+  return {
+    push(text) {
+      if (tail !== null) {
+        tail += text;
+        return;
+      }
+
+      pending += text;
+      const markerIndex = pending.indexOf(FOLLOW_UP_MARKER);
+
+      if (markerIndex !== -1) {
+        emit(pending.slice(0, markerIndex));
+        tail = pending.slice(markerIndex + FOLLOW_UP_MARKER.length);
+        pending = '';
+        return;
+      }
+
+      // Hold back just enough text to recognise a marker split across deltas
+      const safeLength = pending.length - (FOLLOW_UP_MARKER.length - 1);
+      if (safeLength > 0) {
+        emit(pending.slice(0, safeLength));
+        pending = pending.slice(safeLength);
+      }
+    },
+
+    finish() {
+      if (tail === null) {
+        emit(pending);
+        pending = '';
+      }
+      return tail;
+    }
+  };
+};
+
+// Parse and validate the follow-up questions written after the marker; null if they're unusable
+const parseFollowUpQuestions = (tail) => {
+  const arrayMatch = tail?.match(/\[[\s\S]*\]/);
+  let validationErrors = ['no JSON array found after the marker'];
+
+  if (arrayMatch) {
+    try {
+      const questions = JSON.parse(arrayMatch[0]);
+      validationErrors = validateAgainstSchema(
+        questions,
+        ANSWER_SCHEMA.inputSchema.properties.followUpQuestions,
+        'followUpQuestions'
+      );
+
+      if (validationErrors.length === 0) {
+        return questions.map(q => q.trim());
+      }
+    } catch (parseError) {
+      validationErrors = [`follow-up questions were not valid JSON: ${parseError.message}`];
+    }
+  }
+
+  console.error('Invalid follow-up questions in streamed response:', validationErrors);
+  console.log('Invalid follow-up section:', tail);
+  return null;
+};
+
+// Stream an answer to a rendered prompt, followed by follow-up questions. The ancestor
+// context of a follow-up is only fitted into the budget when the answer isn't cached, and a
+// cached answer is sent as a single text delta.
+const streamAnswerWithFollowUps = (prompt, generation, handlers, account, { bypassCache, context } = {}) => withResponseCache(
+  context
+    ? contextResponseCacheKey(account.operation, prompt, context, generation, account)
+    : responseCacheKey(account.operation, prompt, callOptions(generation)),
+  bypassCache,
+  async () => {
+    if (!context) {
+      return generateStreamedAnswer(prompt, generation, handlers, account);
+    }
+    
+    const { turns, promptContext } = await buildContext(context, generation, account, handlers.signal);
+    const response = await generateStreamedAnswer({ ...prompt, conversation: turns }, generation, handlers, account);
+    return { ...response, promptContext };
+  },
+  cached => {
+    handlers.onText(cached.answer);
+    handlers.onFollowUps(cached.followUpQuestions);
+  }
+);
+
+// Stream a freshly generated answer and its follow-up questions
+const generateStreamedAnswer = async (prompt, generation, { onText, onFollowUps, onQueued, signal }, account) => {
+  let answer = '';
+  const splitter = createAnswerSplitter(text => {
+    answer += text;
+    onText(text);
+  });
+
+  await streamClaudeAPICall(
+    promptMessages(STREAMING_SYSTEM_MESSAGE, prompt),
+    text => splitter.push(text),
+    { ...callOptions(generation), account, onQueued, signal }
+  );
+
+  const followUpQuestions = parseFollowUpQuestions(splitter.finish());
+
+  // The answer itself is real, but placeholder questions mean the result is degraded
+  if (!followUpQuestions) {
+    onFollowUps(MOCK_DATA.followUpQuestions);
+    return {
+      answer: answer.trim(),
+      followUpQuestions: MOCK_DATA.followUpQuestions,
+      promptTemplates: prompt.promptTemplates,
+      ...degradedResult(FALLBACK_REASONS.INVALID_OUTPUT)
+    };
+  }
+
+  onFollowUps(followUpQuestions);
+  return { answer: answer.trim(), followUpQuestions, promptTemplates: prompt.promptTemplates };
+};
+
 // Claude API service
 const claudeService = {
   /**
    * Process an initial query
    * @param {string} query - The user's question or reflection
-   * @returns {Promise<Object>} - Claude's response with answer and follow-up questions
+   * @param {Object} settings - Optional generation settings (model, temperature, maxTokens,
+   *   answerLength, followUpCount); unset fields use the defaults
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects, and bypassCache to skip the response cache
+   * @returns {Promise<Object>} - Claude's response with answer and follow-up questions, or mock
+   *   data flagged with `degraded` and `fallbackReason` if the API call failed. Responses from
+   *   the cache are flagged with `cached` and `cachedAt`.
    */
-  async processInitialQuery(query) {
+  async processInitialQuery(query, settings, account, { signal, bypassCache } = {}) {
     try {
-      console.log('Processing initial query:', query);
-      console.log('Claude API URL:', CLAUDE_API_URL);
-      console.log('API Key status:', CLAUDE_API_KEY ? `Set (length: ${CLAUDE_API_KEY.length})` : 'Not set');
-      console.log('Claude model:', process.env.CLAUDE_MODEL || 'claude-3-opus-20240229');
-      
-      const messages = [
-        {
-          role: 'user',
-          content: `Respond to this query: "${query}"
-
-You MUST ONLY return a JSON object with this EXACT structure:
-{
-  "answer": "A thoughtful 2-3 paragraph response that explores the query in detail",
-  "followUpQuestions": [
-    "A thought-provoking follow-up question",
-    "Another relevant follow-up question",
-    "A third follow-up question to explore the topic further"
-  ]
-}
-
-ANY text outside this JSON structure will cause errors. NO explanations, NO apologies, ONLY the JSON object.`
-        }
-      ];
-
-      const systemMessage = `You are a JSON-only response API. You must ALWAYS respond with ONLY valid JSON, no matter what. Never include any explanatory text, apologies, or any content outside the JSON structure. If you cannot provide a proper response, return a JSON error object instead.
-
-Format:
-{
-  "answer": "Your thoughtful response here",
-  "followUpQuestions": ["Question 1", "Question 2", "Question 3"]
-}`;
-      
-      const response = await makeClaudeAPICall([
-        { role: 'system', content: systemMessage },
-        ...messages
-      ]);
-      
-      // Log the raw response for debugging
-      console.log('Claude API raw response:', {
-        status: response.status,
-        headers: response.headers,
-        data: response.data
-      });
-
-      // Validate response structure
-      if (!response.data || !response.data.content || !Array.isArray(response.data.content)) {
-        console.error('Invalid response structure from Claude API');
-        return MOCK_DATA;
-      }
-
-      // Extract the content from Claude's response
-      const content = response.data.content[0].text.trim();
-      
-      // Log the raw content for debugging
-      console.log('Raw content from Claude:', content);
+      const generation = resolveGenerationSettings(settings);
       
-      // Validate that the content starts with { and ends with }
-      if (!content.startsWith('{') || !content.endsWith('}')) {
-        console.error('Response is not a JSON object');
-        console.log('Invalid content:', content);
-        return MOCK_DATA;
-      }
+      console.log('Processing initial query:', query);
+      console.log('LLM provider:', { provider: provider.name, model: generation.model || provider.model });
       
-      // Try to parse the JSON response
-      try {
-        const parsedResponse = JSON.parse(content);
-        console.log('Successfully parsed response:', parsedResponse);
+      const prompt = renderPrompt(['initial-query', { query }], answerFormat(generation));
+      return await withResponseCache(responseCacheKey('query', prompt, callOptions(generation)), bypassCache, async () => {
+        const response = await generateStructured(promptMessages(STRUCTURED_SYSTEM_MESSAGE, prompt), ANSWER_SCHEMA, { ...callOptions(generation), account: { ...account, operation: 'query' }, signal });
         
-        // Validate the response structure
-        if (!parsedResponse.answer || !Array.isArray(parsedResponse.followUpQuestions)) {
-          console.error('Invalid response structure from Claude');
-          console.log('Invalid response object:', parsedResponse);
-          return MOCK_DATA;
-        }
-        
-        // Validate follow-up questions
-        if (parsedResponse.followUpQuestions.length < 1) {
-          console.error('No follow-up questions provided');
-          parsedResponse.followUpQuestions = MOCK_DATA.followUpQuestions;
-        }
+        console.log('Validated response:', {
+          answerLength: response.answer.length,
+          followUpCount: response.followUpQuestions.length
+        });
         
-        return parsedResponse;
-      } catch (parseError) {
-        console.error('Error parsing Claude response:', parseError);
-        console.log('Failed to parse content:', content);
-        return MOCK_DATA;
-      }
+        return { ...response, promptTemplates: prompt.promptTemplates };
+      });
     } catch (error) {
-      // Check if this is a final retry failure
-      const isRetryFailure = error.message?.includes('Service overloaded') || 
-                            error.response?.status === 529 ||
-                            error.response?.data?.error?.type === 'overloaded_error';
+      // Nobody is waiting for a cancelled request, so there is nothing to fall back to, and
+      // a user whose line in the request queue is full is refused with 429 by the route
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+      
+      const fallbackReason = getFallbackReason(error);
       
       console.error('Error calling Claude API:', error.response?.data || error.message);
       console.log('Full error object:', error);
-      console.log(`Using mock data as fallback (${isRetryFailure ? 'after retries' : 'immediate'})`);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
       
       return {
         ...MOCK_DATA,
-        answer: isRetryFailure 
+        answer: fallbackReason === FALLBACK_REASONS.OVERLOADED
           ? "I apologize, but the service is currently experiencing high load. Please try again in a few moments."
-          : MOCK_DATA.answer
+          : MOCK_DATA.answer,
+        ...degradedResult(fallbackReason)
       };
     }
   },
@@ -242,271 +640,383 @@ Format:
   /**
    * Process a follow-up query
    * @param {string} query - The follow-up question
-   * @param {Array<string>} context - Previous conversation context
-   * @returns {Promise<Object>} - Claude's response with answer and follow-up questions
+   * @param {Array<Object>} context - The conversation on the path to the node, as
+   *   { role, content } turns, oldest first
+   * @param {Object} settings - Optional generation settings (model, temperature, maxTokens,
+   *   answerLength, followUpCount); unset fields use the defaults
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects, bypassCache to skip the response cache, and the documents (sources and
+   *   attachments on the path) a grounded answer may cite
+   * @returns {Promise<Object>} - Claude's response with answer and follow-up questions, the
+   *   promptContext describing the ancestor context that was sent and, for grounded answers,
+   *   the citations it makes, or mock data flagged with `degraded` and `fallbackReason` if the
+   *   API call failed
    */
-  async processFollowUpQuery(query, context) {
+  async processFollowUpQuery(query, context, settings, account, { signal, bypassCache, documents } = {}) {
     try {
       console.log('Processing follow-up query:', query);
       console.log('Context:', context);
       
-      const messages = [
-        {
-          role: 'user',
-          content: `Previous context: ${context.join('\n\n')}
-          
-My follow-up question is: "${query}"
-
-You MUST ONLY return a JSON object with this EXACT structure:
-{
-  "answer": "A thoughtful 2-3 paragraph response that explores the query in detail",
-  "followUpQuestions": [
-    "A thought-provoking follow-up question",
-    "Another relevant follow-up question",
-    "A third follow-up question to explore the topic further"
-  ]
-}
-
-ANY text outside this JSON structure will cause errors. NO explanations, NO apologies, ONLY the JSON object.`
-        }
-      ];
-
-      const systemMessage = `You are a JSON-only response API. You must ALWAYS respond with ONLY valid JSON, no matter what. Never include any explanatory text, apologies, or any content outside the JSON structure. If you cannot provide a proper response, return a JSON error object instead.
-
-Format:
-{
-  "answer": "Your thoughtful response here",
-  "followUpQuestions": ["Question 1", "Question 2", "Question 3"]
-}`;
+      const generation = resolveGenerationSettings(settings);
+      const grounding = await groundAnswer(generation, documents, account);
+      const prompt = renderPrompt(['follow-up', { query }], ...grounding.promptParts, answerFormat(generation));
+      const response = await withResponseCache(contextResponseCacheKey('follow-up', prompt, context, generation, account), bypassCache, async () => {
+        const { turns, promptContext } = await buildContext(context, generation, account, signal);
+        const response = await generateStructured(promptMessages(STRUCTURED_SYSTEM_MESSAGE, { ...prompt, conversation: turns }), ANSWER_SCHEMA, { ...callOptions(generation), account: { ...account, operation: 'follow-up' }, signal });
+        
+        return { ...response, promptTemplates: prompt.promptTemplates, promptContext };
+      });
       
-      const response = await makeClaudeAPICall([
-        { role: 'system', content: systemMessage },
-        ...messages
-      ]);
+      return {
+        success: true,
+        data: withCitations(response, grounding.documents)
+      };
+    } catch (error) {
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
       
-      // Extract the content from Claude's response
-      const content = response.data.content[0].text.trim();
+      const fallbackReason = getFallbackReason(error);
       
-      // Log the raw content for debugging
-      console.log('Raw content from Claude:', content);
+      console.error('Error processing follow-up query:', error.response?.data || error.message);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
       
-      // Validate that the content starts with { and ends with }
-      if (!content.startsWith('{') || !content.endsWith('}')) {
-        console.error('Response is not a JSON object');
-        console.log('Invalid content:', content);
-        return {
+      return {
+        success: true,
+        data: {
           ...MOCK_DATA,
-          answer: "This is a mock response for your follow-up question. The Claude API response was not in the correct format."
-        };
-      }
-      
-      // Sanitize the response content by replacing problematic characters
-      const sanitizedContent = content
-        .replace(/\n/g, '\\n')  // Replace newlines with escaped newlines
-        .replace(/[\u0000-\u001F\u007F-\u009F]/g, ''); // Remove control characters
-      
-      try {
-        const parsedContent = JSON.parse(sanitizedContent);
-        return {
-          success: true,
-          data: {
-            answer: parsedContent.answer.replace(/\\n/g, '\n'),  // Convert back to actual newlines
-            followUpQuestions: parsedContent.followUpQuestions
-          }
-        };
-      } catch (parseError) {
-        console.error('Failed to parse content:', sanitizedContent);
-        console.error('Parse error:', parseError);
-        
-        // Attempt to extract data using regex as fallback
-        const answerMatch = content.match(/"answer":\s*"([^"]+)"/);
-        const questionsMatch = content.match(/"followUpQuestions":\s*\[(.*?)\]/);
-        
-        if (answerMatch && questionsMatch) {
-          const answer = answerMatch[1];
-          const questions = questionsMatch[1]
-            .split(',')
-            .map(q => q.trim().replace(/^"|"$/g, ''));
-          
-          return {
-            success: true,
-            data: {
-              answer,
-              followUpQuestions: questions
-            }
-          };
+          answer: fallbackReason === FALLBACK_REASONS.OVERLOADED
+            ? "I apologize, but the service is currently experiencing high load. Please try again in a few moments."
+            : MOCK_DATA.answer,
+          ...degradedResult(fallbackReason)
         }
-        
-        throw new Error('Failed to parse Claude response: ' + parseError.message);
-      }
-    } catch (error) {
-      console.error('Error processing follow-up query:', error);
-      return {
-        success: false,
-        error: error.message
       };
     }
   },
   
   /**
    * Synthesize insights from multiple nodes
-   * @param {Array<string>} contexts - Content from selected nodes
+   * @param {Array<Object>} contexts - The selected nodes as { role, content } conversation turns
    * @param {string} customPrompt - Optional custom prompt for synthesis
+   * @param {Object} settings - Optional generation settings; model, temperature and maxTokens
+   *   apply, with maxTokens defaulting to SYNTHESIS_MAX_TOKENS
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects, and bypassCache to skip the response cache
    * @returns {Promise<Object>} - Claude's synthesized response
    */
-  async synthesize(contexts, customPrompt) {
+  async synthesize(contexts, customPrompt, settings, account, { signal, bypassCache } = {}) {
     try {
       console.log('Synthesizing insights from contexts:', contexts.length);
       
-      const defaultPrompt = `I have selected multiple insights from my mind map exploration. Please synthesize these insights into a coherent summary with a meaningful title.
-      
-      Format your response as a JSON object with the following structure:
-      {
-        "title": "A meaningful title for the synthesis",
-        "content": "The synthesized content..."
-      }`;
-      
-      const prompt = customPrompt || defaultPrompt;
-      
-      const response = await axios.post(
-        CLAUDE_API_URL,
-        {
-          model: 'claude-3-opus-20240229',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: `${prompt}
-              
-              Here are the selected insights:
-              ${contexts.map((context, index) => `[${index + 1}] ${context}`).join('\n\n')}`
-            }
-          ]
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': CLAUDE_API_KEY,
-            'anthropic-version': '2023-06-01'
-          }
+      const generation = resolveGenerationSettings({ maxTokens: SYNTHESIS_MAX_TOKENS, ...pickGenerationSettings(settings) });
+      const options = callOptions(generation);
+      // A custom prompt replaces the default instructions from the prompts folder
+      const instructions = customPrompt
+        ? { text: customPrompt, promptTemplates: [] }
+        : renderPrompt(['synthesis-instructions', {}]);
+      const rendered = renderPrompt(['synthesis', { instructions: instructions.text }]);
+      const promptTemplates = [...instructions.promptTemplates, ...rendered.promptTemplates];
+      const prompt = { ...rendered, promptTemplates, conversation: toTurns(contexts) };
+      
+      return await withResponseCache(
+        responseCacheKey('synthesis', prompt, options),
+        bypassCache,
+        async () => {
+          const response = await generateStructured(promptMessages(STRUCTURED_SYSTEM_MESSAGE, prompt), SYNTHESIS_SCHEMA, { ...options, account: { ...account, operation: 'synthesis' }, signal });
+          
+          return { ...response, promptTemplates };
         }
       );
-      
-      // Extract the content from Claude's response
-      const content = response.data.content[0].text;
-      
-      // Parse the JSON response
-      try {
-        return JSON.parse(content);
-      } catch (parseError) {
-        console.error('Error parsing Claude synthesis response:', parseError);
-        
-        // Attempt to extract the title and content using regex
-        const titleMatch = content.match(/\"title\":\s*\"(.*?)\"/s);
-        const contentMatch = content.match(/\"content\":\s*\"(.*?)\"/s);
-        
-        const title = titleMatch 
-          ? titleMatch[1].replace(/\\"/g, '"') 
-          : 'Synthesis ' + new Date().toLocaleString();
-        
-        const synthesizedContent = contentMatch 
-          ? contentMatch[1].replace(/\\"/g, '"') 
-          : 'Could not parse synthesized content. Please try again.';
-        
-        return {
-          title,
-          content: synthesizedContent
-        };
-      }
     } catch (error) {
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+      
       console.error('Error calling Claude API for synthesis:', error.response?.data || error.message);
       throw new Error('Failed to synthesize insights with Claude API');
     }
   },
 
+  /**
+   * Summarize a whole canvas. A map that fits SUMMARY_CHUNK_TOKENS is summarized in one call;
+   * a larger one is summarized branch by branch and the notes merged into the summary.
+   * @param {Object} canvas - The canvas, with title, nodes, edges and generation settings; its
+   *   model is used for every call
+   * @param {string} style - One of SUMMARY_STYLES: brief, outline or questions
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects
+   * @returns {Promise<Object|null>} - { title, content, style, nodeIds, promptTemplates }, where
+   *   nodeIds are the nodes the summary covers, or null when no node has anything to summarize
+   */
+  async summarizeCanvas(canvas, style, account, { signal } = {}) {
+    const chunks = chunkOutline(buildOutline(canvas, SUMMARY_CHUNK_TOKENS * 4), SUMMARY_CHUNK_TOKENS);
+    if (chunks.length === 0) {
+      return null;
+    }
+
+    try {
+      console.log('Summarizing canvas:', { canvasId: account?.canvasId, style, parts: chunks.length });
+
+      const { model, temperature } = resolveGenerationSettings(canvas.generationSettings);
+      const summaryAccount = { ...account, operation: 'summary' };
+      const promptTemplates = [];
+      const title = canvas.title;
+
+      const material = chunks.length === 1
+        ? `The map, one node per line, indented under the node it came from:\n\n${formatOutline(chunks[0])}`
+        : `Notes on each part of the map:\n\n${(await summarizeParts(title, chunks, { model, account: summaryAccount, signal, promptTemplates })).join('\n\n')}`;
+      const prompt = renderPrompt(['canvas-summary', { title, style: SUMMARY_STYLES[style].instructions, material }]);
+      promptTemplates.push(...prompt.promptTemplates);
+
+      const response = await makeClaudeAPICall([{ role: 'user', content: prompt.text }], {
+        maxTokens: 2000,
+        model,
+        temperature,
+        account: summaryAccount,
+        signal
+      });
+
+      return {
+        title: `${SUMMARY_STYLES[style].label}: ${title}`,
+        content: response.text.trim(),
+        style,
+        nodeIds: chunks.flat().map(entry => entry.id),
+        promptTemplates: uniqueTemplates(promptTemplates)
+      };
+    } catch (error) {
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+
+      console.error('Error calling Claude API for canvas summary:', error.response?.data || error.message);
+      throw new Error('Failed to summarize canvas with Claude API');
+    }
+  },
+
   /**
    * Process a topic to generate an explanation
    * @param {string} topic - The topic to explain
-   * @param {Array<string>} context - Previous conversation context
-   * @returns {Promise<Object>} - Claude's explanation of the topic
+   * @param {Array<Object>} context - The conversation on the path to the node, as
+   *   { role, content } turns, oldest first
+   * @param {Object} settings - Optional generation settings; model, temperature and maxTokens apply
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects, and bypassCache to skip the response cache
+   * @returns {Promise<Object>} - Claude's explanation of the topic and the promptContext that was
+   *   sent, flagged as degraded if it is a fallback
    */
-  async processTopic(topic, context) {
+  async processTopic(topic, context, settings, account, { signal, bypassCache } = {}) {
     try {
       console.log('Processing topic explanation:', topic);
       console.log('Context:', context);
       
-      const messages = [
-        {
-          role: 'user',
-          content: `Previous context: ${context.join('\n\n')}
-          
-Please explain this topic: "${topic}"
-
-You MUST ONLY return a JSON object with this EXACT structure:
-{
-  "explanation": "A clear and concise explanation of the topic in 1-2 paragraphs, relating it to the previous context where relevant"
-}
-
-ANY text outside this JSON structure will cause errors. NO explanations, NO apologies, ONLY the JSON object.`
-        }
-      ];
+      const generation = resolveGenerationSettings(settings);
+      const options = callOptions(generation);
+      const prompt = renderPrompt(['topic', { topic }]);
+      
+      return await withResponseCache(contextResponseCacheKey('topic', prompt, context, generation, account), bypassCache, async () => {
+        const { turns, promptContext } = await buildContext(context, generation, account, signal);
+        const response = await generateStructured(promptMessages(STRUCTURED_SYSTEM_MESSAGE, { ...prompt, conversation: turns }), EXPLANATION_SCHEMA, {
+          ...options,
+          account: { ...account, operation: 'topic' },
+          signal
+        });
+        
+        return { ...response, promptTemplates: prompt.promptTemplates, promptContext };
+      });
+    } catch (error) {
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+      
+      const fallbackReason = getFallbackReason(error);
+      
+      console.error('Error calling Claude API:', error.response?.data || error.message);
+      console.log('Full error object:', error);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
+      return {
+        explanation: `This is a mock explanation for "${topic}". The Claude API is currently unavailable. Please try again later.`,
+        ...degradedResult(fallbackReason)
+      };
+    }
+  },
 
-      const systemMessage = `You are a JSON-only response API. You must ALWAYS respond with ONLY valid JSON, no matter what. Never include any explanatory text, apologies, or any content outside the JSON structure. If you cannot provide a proper response, return a JSON error object instead.
+  /**
+   * Pick out the key concepts of a node's text and find where they appear in it
+   * @param {string} text - The node's text, usually an answer
+   * @param {Object} settings - Optional generation settings; model and temperature apply
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional signal that cancels the request, e.g. when the client
+   *   disconnects, and bypassCache to skip the response cache
+   * @returns {Promise<Object>} - { topics, promptTemplates }, where topics are { topic, start, end }
+   *   character spans of the text, or no topics flagged as degraded if the model couldn't be used
+   */
+  async extractTopics(text, settings, account, { signal, bypassCache } = {}) {
+    try {
+      const { model, temperature } = resolveGenerationSettings(settings);
+      const options = { model, temperature, maxTokens: 500 };
+      const prompt = renderPrompt(['topic-extraction', { text }]);
+      
+      return await withResponseCache(responseCacheKey('topics', prompt, options), bypassCache, async () => {
+        const response = await generateStructured(promptMessages(STRUCTURED_SYSTEM_MESSAGE, prompt), TOPICS_SCHEMA, {
+          ...options,
+          account: { ...account, operation: 'topics' },
+          signal
+        });
+        
+        return { topics: findTopicSpans(text, response.topics), promptTemplates: prompt.promptTemplates };
+      });
+    } catch (error) {
+      if (signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+      
+      const fallbackReason = getFallbackReason(error);
+      console.error('Error calling Claude API for topic extraction:', error.response?.data || error.message);
+      return { topics: [], ...degradedResult(fallbackReason) };
+    }
+  },
 
-Format:
-{
-  "explanation": "Your clear and concise explanation here"
-}`;
+  /**
+   * Stream the answer to an initial query
+   * @param {string} query - The user's question or reflection
+   * @param {Object} handlers - onText(text) for answer deltas, onFollowUps(questions) once the
+   *   follow-up questions are complete, onQueued({ position, etaSeconds }) while waiting in the
+   *   request queue, and an optional AbortSignal
+   * @param {Object} settings - Optional generation settings, as for processInitialQuery
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional bypassCache to skip the response cache
+   * @returns {Promise<Object>} - The complete answer and follow-up questions, flagged as degraded
+   *   if any of it is a fallback and as `cached` if it came from the response cache
+   */
+  async streamInitialQuery(query, { onText, onFollowUps, onQueued, signal }, settings, account, { bypassCache } = {}) {
+    try {
+      console.log('Streaming initial query:', query);
       
-      const response = await makeClaudeAPICall([
-        { role: 'system', content: systemMessage },
-        ...messages
-      ]);
+      const generation = resolveGenerationSettings(settings);
+      return await streamAnswerWithFollowUps(
+        renderPrompt(['initial-query', { query }], streamingAnswerFormat(generation)),
+        generation,
+        { onText, onFollowUps, onQueued, signal },
+        { ...account, operation: 'query' },
+        { bypassCache }
+      );
+    } catch (error) {
+      // Once part of the answer has been shown there is nothing sensible to fall back to, and
+      // a full request queue is refused with 429 rather than answered with placeholder text
+      if (error.partialResponse || signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
       
-      // Extract the content from Claude's response
-      const content = response.data.content[0].text.trim();
+      const fallbackReason = getFallbackReason(error);
       
-      // Log the raw content for debugging
-      console.log('Raw content from Claude:', content);
+      console.error('Error streaming from Claude API:', error.response?.data || error.message);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
       
-      // Validate that the content starts with { and ends with }
-      if (!content.startsWith('{') || !content.endsWith('}')) {
-        console.error('Response is not a JSON object');
-        console.log('Invalid content:', content);
-        return {
-          explanation: `This is a mock explanation for "${topic}". The Claude API response was not in the correct format.`
-        };
+      onText(MOCK_DATA.answer);
+      onFollowUps(MOCK_DATA.followUpQuestions);
+      return { ...MOCK_DATA, ...degradedResult(fallbackReason) };
+    }
+  },
+
+  /**
+   * Stream the answer to a follow-up query
+   * @param {string} query - The follow-up question
+   * @param {Array<Object>} context - The conversation on the path to the node, as
+   *   { role, content } turns, oldest first
+   * @param {Object} handlers - Same handlers as streamInitialQuery
+   * @param {Object} settings - Optional generation settings, as for processInitialQuery
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional bypassCache to skip the response cache, and the
+   *   documents a grounded answer may cite, as for processFollowUpQuery
+   * @returns {Promise<Object>} - The complete answer and follow-up questions, the promptContext
+   *   describing the ancestor context that was sent and, for grounded answers, its citations,
+   *   flagged as degraded if any of it is a fallback
+   */
+  async streamFollowUpQuery(query, context, { onText, onFollowUps, onQueued, signal }, settings, account, { bypassCache, documents } = {}) {
+    try {
+      console.log('Streaming follow-up query:', query);
+      console.log('Context:', context);
+      
+      const generation = resolveGenerationSettings(settings);
+      const grounding = await groundAnswer(generation, documents, account);
+      const response = await streamAnswerWithFollowUps(
+        renderPrompt(['follow-up', { query }], ...grounding.promptParts, streamingAnswerFormat(generation)),
+        generation,
+        { onText, onFollowUps, onQueued, signal },
+        { ...account, operation: 'follow-up' },
+        { bypassCache, context }
+      );
+      
+      return withCitations(response, grounding.documents);
+    } catch (error) {
+      if (error.partialResponse || signal?.aborted || error instanceof QueueFullError) {
+        throw error;
       }
       
-      // Try to parse the JSON response
-      try {
-        const parsedResponse = JSON.parse(content);
-        console.log('Successfully parsed response:', parsedResponse);
-        
-        // Validate the response structure
-        if (!parsedResponse.explanation) {
-          console.error('Invalid response structure from Claude');
-          console.log('Invalid response object:', parsedResponse);
-          return {
-            explanation: `This is a mock explanation for "${topic}". The Claude API response was not in the correct format.`
-          };
-        }
+      const fallbackReason = getFallbackReason(error);
+      
+      console.error('Error streaming from Claude API:', error.response?.data || error.message);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
+      
+      onText(MOCK_DATA.answer);
+      onFollowUps(MOCK_DATA.followUpQuestions);
+      return { ...MOCK_DATA, ...degradedResult(fallbackReason) };
+    }
+  },
+
+  /**
+   * Stream an explanation of a topic
+   * @param {string} topic - The topic to explain
+   * @param {Array<Object>} context - The conversation on the path to the node, as
+   *   { role, content } turns, oldest first
+   * @param {Object} handlers - onText(text) for explanation deltas, onQueued as for
+   *   streamInitialQuery, and an optional AbortSignal
+   * @param {Object} settings - Optional generation settings; model, temperature and maxTokens apply
+   * @param {Object} account - Optional { userId, canvasId } the tokens used are recorded against
+   * @param {Object} options - Optional bypassCache to skip the response cache
+   * @returns {Promise<Object>} - The complete explanation and the promptContext that was sent,
+   *   flagged as degraded if it is a fallback and as `cached` if it came from the response cache
+   */
+  async streamTopic(topic, context, { onText, onQueued, signal }, settings, account, { bypassCache } = {}) {
+    try {
+      console.log('Streaming topic explanation:', topic);
+      
+      const generation = resolveGenerationSettings(settings);
+      const options = callOptions(generation);
+      const prompt = renderPrompt(['topic', { topic }], ['topic-format-stream', {}]);
+      
+      return await withResponseCache(contextResponseCacheKey('topic', prompt, context, generation, account), bypassCache, async () => {
+        const { turns, promptContext } = await buildContext(context, generation, account, signal);
+        const explanation = await streamClaudeAPICall(
+          promptMessages(STREAMING_SYSTEM_MESSAGE, { ...prompt, conversation: turns }),
+          onText,
+          {
+            ...options,
+            account: { ...account, operation: 'topic' },
+            onQueued,
+            signal
+          }
+        );
         
-        return parsedResponse;
-      } catch (parseError) {
-        console.error('Error parsing Claude response:', parseError);
-        console.log('Failed to parse content:', content);
-        return {
-          explanation: `This is a mock explanation for "${topic}". The Claude API response was not in the correct format.`
-        };
-      }
+        return { explanation: explanation.trim(), promptTemplates: prompt.promptTemplates, promptContext };
+      }, cached => onText(cached.explanation));
     } catch (error) {
-      console.error('Error calling Claude API:', error.response?.data || error.message);
-      console.log('Full error object:', error);
-      console.log('Using mock data as fallback');
-      return {
-        explanation: `This is a mock explanation for "${topic}". The Claude API is currently unavailable. Please try again later.`
-      };
+      if (error.partialResponse || signal?.aborted || error instanceof QueueFullError) {
+        throw error;
+      }
+      
+      const fallbackReason = getFallbackReason(error);
+      
+      console.error('Error streaming from Claude API:', error.response?.data || error.message);
+      console.log(`Using mock data as fallback (${fallbackReason})`);
+      
+      const explanation = `This is a mock explanation for "${topic}". The Claude API is currently unavailable. Please try again later.`;
+      onText(explanation);
+      return { explanation, ...degradedResult(fallbackReason) };
     }
   }
 };
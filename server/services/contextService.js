@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { createResponseCache } from './responseCache.js';
+import { toContent } from './llm/content.js';
+import { estimateTokens, IMAGE_TOKEN_ESTIMATE } from './usageService.js';
+
+// Load environment variables
+dotenv.config();
+
+// Tokens of ancestor context sent with a prompt when the canvas doesn't set its own budget
+export const DEFAULT_CONTEXT_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 4000;
+
+// Share of the budget the summary of older ancestors may use; the rest is kept for recent ones verbatim
+const SUMMARY_SHARE = 0.25;
+
+// Characters of each verbatim ancestor kept for inspecting the context
+const EXCERPT_LENGTH = 160;
+
+// Summaries are reused by every branch below the same ancestors, so they are kept for a day
+const summaryCache = createResponseCache({ ttlMs: 24 * 60 * 60 * 1000, maxEntries: 1000 });
+
+// Key a summary by the ancestors it covers and the tokens it may use
+const summaryKey = (ancestors, maxTokens) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify({ maxTokens, ancestors }))
+  .digest('hex');
+
+// Speakers a conversation turn can have
+const ROLES = ['user', 'assistant'];
+
+// Attachment references a turn may carry, read by the attachment service
+const isAttachmentRef = (attachment) => ['fileName', 'fileType', 'filePath']
+  .every(field => typeof attachment?.[field] === 'string');
+
+const excerpt = (text) => (text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 3)}...` : text);
+
+// Summarize the oldest ancestors, starting from the summary of the longest run of them
+// already summarized, so each step down a branch only folds in what is new
+const rollingSummary = async (ancestors, maxTokens, summarize) => {
+  let covered = ancestors.length;
+  let previous = null;
+
+  while (covered > 0 && !previous) {
+    previous = summaryCache.get(summaryKey(ancestors.slice(0, covered), maxTokens))?.value;
+    if (!previous) covered--;
+  }
+
+  if (covered === ancestors.length) {
+    return previous;
+  }
+
+  const summary = await summarize(previous?.text || '', ancestors.slice(covered), maxTokens);
+  summaryCache.set(summaryKey(ancestors, maxTokens), { text: summary });
+  return { text: summary };
+};
+
+/**
+ * Read the ancestor context sent by a client as conversation turns. Entries are
+ * { role, content, attachments? } turns; plain strings, as sent by older clients, are taken
+ * as the user's.
+ * @param {Array} context - Ancestor context, oldest first
+ * @returns {Array<Object>} - The turns with content or attachments
+ */
+export const toTurns = (context = []) => context
+  .map(entry => (typeof entry === 'string' ? { role: 'user', content: entry } : entry))
+  .filter(turn => ROLES.includes(turn?.role))
+  .map(({ role, content, attachments }) => ({
+    role,
+    content: typeof content === 'string' ? content.trim() : '',
+    ...(Array.isArray(attachments) && { attachments: attachments.filter(isAttachmentRef) })
+  }))
+  .filter(turn => turn.content || turn.attachments?.length);
+
+/**
+ * Build the messages of a prompt that continues a conversation. Consecutive turns by the same
+ * speaker are merged so user and assistant alternate, and the prompt is the last user turn.
+ * @param {Array<Object>} turns - The conversation so far, oldest first
+ * @param {string} prompt - The rendered prompt
+ * @returns {Array<Object>} - Messages for the provider, without the system message
+ */
+export const buildConversation = (turns, prompt) => {
+  const merged = [];
+
+  [...turns, { role: 'user', content: prompt }].forEach((turn, index) => {
+    // Providers expect the user to speak first, so an opening answer is quoted by them
+    const { role, content, images = [] } = index === 0 && turn.role === 'assistant'
+      ? { role: 'user', content: `Earlier in this exploration you wrote:\n\n${turn.content}` }
+      : turn;
+    const last = merged[merged.length - 1];
+
+    if (last?.role === role) {
+      last.content = `${last.content}\n\n${content}`;
+      last.images.push(...images);
+    } else {
+      merged.push({ role, content, images: [...images] });
+    }
+  });
+
+  // Turns with attached images are sent as image and text content
+  return merged.map(({ role, content, images }) => ({ role, content: toContent(content, images) }));
+};
+
+// Conversation turns as plain text, for prompts that quote them; images are only named
+export const formatTurns = (turns) => turns
+  .map(({ role, content }) => `${role === 'user' ? 'User' : 'Assistant'}: ${content}`)
+  .join('\n\n');
+
+// Rough token count for a turn, its text and attached images
+const estimateTurnTokens = (turn) => estimateTokens(turn.content) + (turn.images?.length || 0) * IMAGE_TOKEN_ESTIMATE;
+
+/**
+ * Fit a node's ancestor context into a token budget. Recent ancestors are kept verbatim
+ * and, once they no longer fit, older ones are replaced by a rolling summary. The closest
+ * ancestor is always kept, even when it alone is over the budget.
+ * @param {Array<Object>} context - Conversation turns on the path to the node, oldest first
+ * @param {number} budget - Tokens the context may use
+ * @param {Function} summarize - async (previousSummary, turns, maxTokens) => summary text
+ * @param {AbortSignal} signal - Optional signal that cancels the request
+ * @returns {Promise<Object>} - turns to send before the prompt, and promptContext describing
+ *   what was sent: the budget, tokens used and the summary and verbatim parts
+ */
+export const fitContext = async (context, budget = DEFAULT_CONTEXT_BUDGET, summarize, signal) => {
+  const tokens = context.map(estimateTurnTokens);
+  const verbatimPart = (turn, index) => ({
+    kind: 'verbatim',
+    role: turn.role,
+    ancestorCount: 1,
+    tokens: tokens[index],
+    excerpt: excerpt(turn.content),
+    ...(turn.attachmentNames && { attachments: turn.attachmentNames })
+  });
+  const total = tokens.reduce((sum, count) => sum + count, 0);
+
+  if (total <= budget) {
+    return {
+      turns: context,
+      promptContext: { budget, tokens: total, parts: context.map(verbatimPart) }
+    };
+  }
+
+  // Keep as many recent ancestors as fit next to the summary
+  const summaryTokens = Math.floor(budget * SUMMARY_SHARE);
+  let keptTokens = tokens[tokens.length - 1];
+  let firstKept = context.length - 1;
+
+  while (firstKept > 0 && keptTokens + tokens[firstKept - 1] <= budget - summaryTokens) {
+    firstKept--;
+    keptTokens += tokens[firstKept];
+  }
+
+  const older = context.slice(0, firstKept);
+  const recent = context.slice(firstKept);
+  const recentParts = recent.map((turn, index) => verbatimPart(turn, firstKept + index));
+
+  // A single turn over the budget leaves nothing older to summarize
+  if (older.length === 0) {
+    return {
+      turns: recent,
+      promptContext: { budget, tokens: keptTokens, parts: recentParts }
+    };
+  }
+
+  try {
+    const summary = await rollingSummary(older, summaryTokens, summarize);
+    const summaryTurn = { role: 'user', content: `Summary of our earlier conversation: ${summary.text}` };
+    const summaryPart = { kind: 'summary', ancestorCount: older.length, tokens: estimateTokens(summaryTurn.content), text: summary.text };
+
+    return {
+      turns: [summaryTurn, ...recent],
+      promptContext: { budget, tokens: summaryPart.tokens + keptTokens, parts: [summaryPart, ...recentParts] }
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+
+    // Without a summary the older ancestors are left out, so the prompt still fits
+    console.error('Failed to summarize older context, leaving it out:', error.message);
+    return {
+      turns: recent,
+      promptContext: {
+        budget,
+        tokens: keptTokens,
+        parts: [{ kind: 'omitted', ancestorCount: older.length, tokens: 0 }, ...recentParts]
+      }
+    };
+  }
+};
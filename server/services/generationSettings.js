@@ -0,0 +1,100 @@
+// Generation settings a canvas can carry. Every field is optional: an unset model or
+// temperature keeps the provider default, an unset context budget uses CONTEXT_TOKEN_BUDGET,
+// and the rest fall back to GENERATION_DEFAULTS.
+
+export const GENERATION_DEFAULTS = {
+  maxTokens: 1000,
+  answerLength: 'standard',
+  followUpCount: 3,
+  grounded: false
+};
+
+// How each answer length is described to the model
+export const ANSWER_LENGTHS = {
+  brief: 'a concise one-paragraph',
+  standard: 'a thoughtful 2-3 paragraph',
+  detailed: 'a detailed 4-5 paragraph'
+};
+
+// Allowed ranges for numeric settings
+const LIMITS = {
+  temperature: { min: 0, max: 1 },
+  maxTokens: { min: 100, max: 4000 },
+  followUpCount: { min: 1, max: 5 },
+  contextBudget: { min: 500, max: 100000 }
+};
+
+const MAX_MODEL_LENGTH = 100;
+
+const isUnset = (value) => value === undefined || value === null || value === '';
+
+/**
+ * Check generation settings sent by a client
+ * @param {Object} settings - The settings to check
+ * @returns {Array<string>} - Problems found, empty if the settings are valid
+ */
+export const validateGenerationSettings = (settings) => {
+  if (isUnset(settings)) {
+    return [];
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return ['settings must be an object'];
+  }
+
+  const errors = [];
+  const { model, temperature, maxTokens, answerLength, followUpCount, contextBudget, grounded } = settings;
+
+  if (!isUnset(model) && (typeof model !== 'string' || model.length > MAX_MODEL_LENGTH)) {
+    errors.push(`model must be a string of at most ${MAX_MODEL_LENGTH} characters`);
+  }
+
+  Object.entries({ temperature, maxTokens, followUpCount, contextBudget }).forEach(([key, value]) => {
+    const { min, max } = LIMITS[key];
+    const mustBeInteger = key !== 'temperature';
+
+    if (!isUnset(value) && (
+      typeof value !== 'number' ||
+      Number.isNaN(value) ||
+      (mustBeInteger && !Number.isInteger(value)) ||
+      value < min ||
+      value > max
+    )) {
+      errors.push(`${key} must be ${mustBeInteger ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    }
+  });
+
+  if (!isUnset(answerLength) && !Object.hasOwn(ANSWER_LENGTHS, answerLength)) {
+    errors.push(`answerLength must be one of: ${Object.keys(ANSWER_LENGTHS).join(', ')}`);
+  }
+
+  if (!isUnset(grounded) && typeof grounded !== 'boolean') {
+    errors.push('grounded must be true or false');
+  }
+
+  return errors;
+};
+
+/**
+ * Keep only the recognised, set fields of valid generation settings, e.g. for storing on a canvas
+ * @param {Object} settings - Settings that passed validateGenerationSettings
+ * @returns {Object} - The settings without unknown or empty fields
+ */
+export const pickGenerationSettings = (settings = {}) => Object.fromEntries(
+  ['model', 'temperature', 'maxTokens', 'answerLength', 'followUpCount', 'contextBudget', 'grounded']
+    .filter(key => !isUnset(settings?.[key]))
+    .map(key => [key, settings[key]])
+);
+
+/**
+ * Fill in defaults for the settings used by a request
+ * @param {Object} settings - Settings that passed validateGenerationSettings
+ * @returns {Object} - model, temperature, maxTokens, answerLength, followUpCount, contextBudget
+ *   and grounded
+ */
+export const resolveGenerationSettings = (settings = {}) => ({
+  model: undefined,
+  temperature: undefined,
+  contextBudget: undefined,
+  ...GENERATION_DEFAULTS,
+  ...pickGenerationSettings(settings)
+});
@@ -0,0 +1,80 @@
+import dotenv from 'dotenv';
+import { readAttachmentText } from './attachmentService.js';
+
+// Load environment variables
+dotenv.config();
+
+// Characters of each attachment sent as a document, so documents stay excerpts
+const ATTACHMENT_EXCERPT_LENGTH = (Number(process.env.GROUNDING_EXCERPT_TOKENS) || 500) * 4;
+
+// Characters of a document kept with each citation for showing it
+const CITATION_EXCERPT_LENGTH = 300;
+
+// Citation markers in an answer: [1], or several together as [1][2] or [1, 2]
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+const excerpt = (text) => (text.length > CITATION_EXCERPT_LENGTH ? `${text.slice(0, CITATION_EXCERPT_LENGTH - 3)}...` : text);
+
+const isString = (value) => typeof value === 'string' && value.trim() !== '';
+
+// Keep the well-formed documents sent by a client
+const toDocuments = (documents) => (Array.isArray(documents) ? documents : []).filter(document =>
+  isString(document?.nodeId) && Number.isInteger(document.index) && (
+    (document.kind === 'source' && isString(document.text)) ||
+    (document.kind === 'attachment' && ['fileName', 'fileType', 'filePath'].every(field => isString(document[field])))
+  ));
+
+/**
+ * Number the documents a grounded answer may cite: node sources as they are, and excerpts of
+ * document attachments. Images and attachments that can't be read are left out.
+ * @param {Array<Object>} documents - { kind: 'source', nodeId, index, text, url? } or
+ *   { kind: 'attachment', nodeId, index, fileName, fileType, filePath }, from the root down,
+ *   where index is the document's position among the node's sources or attachments
+ * @param {string} userId - The user making the request; only their own uploads are read
+ * @returns {Promise<Array<Object>>} - { number, kind, nodeId, index, title, url?, text } for each
+ *   document
+ */
+export const loadDocuments = async (documents, userId) => {
+  const loaded = await Promise.all(toDocuments(documents).map(async (document) => {
+    if (document.kind === 'source') {
+      return { kind: 'source', nodeId: document.nodeId, index: document.index, title: document.text, url: isString(document.url) ? document.url : undefined, text: document.text };
+    }
+
+    try {
+      const text = await readAttachmentText(document, userId, ATTACHMENT_EXCERPT_LENGTH);
+      return text && { kind: 'attachment', nodeId: document.nodeId, index: document.index, title: document.fileName, text };
+    } catch (error) {
+      console.error(`Failed to read attachment "${document.fileName}" for grounding, leaving it out:`, error.message);
+      return null;
+    }
+  }));
+
+  return loaded.filter(Boolean).map((document, index) => ({ number: index + 1, ...document }));
+};
+
+// Documents as the numbered list given to the model
+export const formatDocuments = (documents) => documents
+  .map(({ number, kind, title, url, text }) => (kind === 'source'
+    ? `[${number}] Source: ${text}${url ? ` (${url})` : ''}`
+    : `[${number}] Attachment "${title}":\n${text}`))
+  .join('\n\n');
+
+/**
+ * Find the documents an answer cites
+ * @param {string} answer - The answer, with citation markers such as [1]
+ * @param {Array<Object>} documents - The numbered documents it was given
+ * @returns {Array<Object>} - The cited documents in the order they are first cited, with an
+ *   excerpt instead of their full text; markers that match no document are ignored
+ */
+export const findCitations = (answer, documents) => {
+  const cited = new Set();
+
+  for (const [, numbers] of String(answer).matchAll(MARKER_PATTERN)) {
+    numbers.split(',').map(Number).forEach(number => cited.add(number));
+  }
+
+  return [...cited]
+    .map(number => documents.find(document => document.number === number))
+    .filter(Boolean)
+    .map(({ text, ...document }) => ({ ...document, excerpt: excerpt(text) }));
+};
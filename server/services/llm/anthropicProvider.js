@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { readEventStream } from '../../utils/sse.js';
+
+// Anthropic Messages API
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MODEL = 'claude-3-opus-20240229';
+
+// Token counts in the shape every provider reports them
+const toUsage = (usage) => usage && {
+  inputTokens: usage.input_tokens || 0,
+  outputTokens: usage.output_tokens || 0
+};
+
+// Per-request generation options; unset ones keep the API defaults
+const generationOptions = ({ model, temperature }) => ({
+  ...(model && { model }),
+  ...(temperature !== undefined && { temperature })
+});
+
+// Provider backed by the Anthropic Messages API
+const createAnthropicProvider = ({ apiKey, model = DEFAULT_MODEL }) => {
+  if (!apiKey) {
+    console.error('Claude API key not found. Please set ANTHROPIC_API_KEY in your .env file.');
+  }
+
+  const post = (body, { signal, stream = false }) => {
+    // Without a key every request would be rejected, so fail before making one
+    if (!apiKey) {
+      const error = new Error('Anthropic API key is not configured');
+      error.code = 'MISSING_API_KEY';
+      throw error;
+    }
+
+    return axios.post(
+      API_URL,
+      { model, ...body, stream },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': API_VERSION
+        },
+        responseType: stream ? 'stream' : 'json',
+        signal
+      }
+    );
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async complete({ system, messages, maxTokens, model: requestModel, temperature, schema, signal }) {
+      const response = await post({
+        system,
+        messages,
+        max_tokens: maxTokens,
+        ...generationOptions({ model: requestModel, temperature }),
+        // Structured output: force the model to answer through a tool with the schema as its input
+        ...(schema && {
+          tools: [{ name: schema.name, description: schema.description, input_schema: schema.inputSchema }],
+          tool_choice: { type: 'tool', name: schema.name }
+        })
+      }, { signal });
+
+      if (!Array.isArray(response.data?.content)) {
+        throw new Error('Invalid response structure from Anthropic API');
+      }
+
+      const toolUse = response.data.content.find(block => block.type === 'tool_use');
+      const usage = toUsage(response.data.usage);
+      if (toolUse) {
+        return { text: JSON.stringify(toolUse.input), data: toolUse.input, usage, raw: response.data };
+      }
+
+      const text = response.data.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+
+      return { text, usage, raw: response.data };
+    },
+
+    async stream({ system, messages, maxTokens, model: requestModel, temperature, signal }, onText) {
+      const response = await post({
+        system,
+        messages,
+        max_tokens: maxTokens,
+        ...generationOptions({ model: requestModel, temperature })
+      }, { signal, stream: true });
+      let text = '';
+      let usage;
+
+      // Input tokens are reported when the message starts, output tokens as it finishes
+      await readEventStream(response.data, ({ event, data }) => {
+        if (event === 'message_start') {
+          usage = toUsage(JSON.parse(data).message?.usage);
+        } else if (event === 'message_delta') {
+          const outputTokens = JSON.parse(data).usage?.output_tokens;
+          if (usage && outputTokens !== undefined) {
+            usage.outputTokens = outputTokens;
+          }
+        } else if (event === 'content_block_delta') {
+          const payload = JSON.parse(data);
+          if (payload.delta?.type === 'text_delta') {
+            text += payload.delta.text;
+            onText(payload.delta.text);
+          }
+        } else if (event === 'error') {
+          const payload = JSON.parse(data);
+          const streamError = new Error(payload.error?.message || 'Anthropic API stream error');
+          streamError.response = { data: payload };
+          throw streamError;
+        }
+      });
+
+      return { text, usage };
+    }
+  };
+};
+
+export default createAnthropicProvider;
@@ -0,0 +1,22 @@
+// Message content is either a string or, when it carries images, a list of content blocks
+// in the Anthropic Messages format: { type: 'text', text } and
+// { type: 'image', source: { type: 'base64', media_type, data } }. Providers with another
+// format convert the blocks themselves.
+
+// The text of message content, without its images
+export const contentText = (content) => (Array.isArray(content)
+  ? content.filter(block => block.type === 'text').map(block => block.text).join('\n\n')
+  : String(content ?? ''));
+
+// The image blocks of message content
+export const contentImages = (content) => (Array.isArray(content)
+  ? content.filter(block => block.type === 'image')
+  : []);
+
+// Content for text and images; plain text stays a string
+export const toContent = (text, images = []) => (images.length === 0
+  ? text
+  : [
+      ...images.map(({ mediaType, data }) => ({ type: 'image', source: { type: 'base64', media_type: mediaType, data } })),
+      { type: 'text', text }
+    ]);
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { contentImages, contentText } from './content.js';
+
+// Collapse whitespace so cosmetic prompt changes (indentation, line wrapping) keep the same key
+const normalizeText = (text) => String(text ?? '').replace(/\s+/g, ' ').trim();
+
+const abortError = () => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Fixture key: hash of the normalized system prompt, messages, generation options and output schema.
+// Model and temperature are left out when unset, so requests without them keep their old keys.
+export const getFixtureKey = ({ system, messages, maxTokens, model, temperature, schema }) => {
+  const normalized = JSON.stringify({
+    system: normalizeText(system),
+    messages: messages.map(m => ({
+      role: m.role,
+      content: normalizeText(contentText(m.content)),
+      // Images are keyed by a hash of their data, and only when there are any, so text-only
+      // requests keep their old keys
+      ...(contentImages(m.content).length > 0 && {
+        images: contentImages(m.content).map(block => crypto.createHash('sha256').update(block.source.data).digest('hex'))
+      })
+    })),
+    maxTokens,
+    model,
+    temperature,
+    schema: schema?.name
+  });
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+};
+
+// Wrap a provider so calls are recorded to, or replayed from, JSON fixture files.
+// In "record" mode every call goes to the real provider and the request/response
+// pair is saved as <dir>/<key>.json. In "replay" mode calls are answered from those
+// files only, and a missing fixture is an error rather than a live call.
+const withFixtures = (provider, { mode, dir }) => {
+  const fixturePath = (key) => path.join(dir, `${key}.json`);
+
+  const readFixture = (request) => {
+    const key = getFixtureKey(request);
+    const file = fixturePath(key);
+
+    if (!fs.existsSync(file)) {
+      const error = new Error(`No LLM fixture recorded for this request (key ${key}). Record it with LLM_FIXTURE_MODE=record.`);
+      error.code = 'FIXTURE_NOT_FOUND';
+      throw error;
+    }
+
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  };
+
+  const writeFixture = (request, response) => {
+    const key = getFixtureKey(request);
+    const fixture = {
+      key,
+      provider: provider.name,
+      model: request.model || provider.model,
+      recordedAt: new Date().toISOString(),
+      request: {
+        system: request.system,
+        messages: request.messages,
+        maxTokens: request.maxTokens,
+        model: request.model,
+        temperature: request.temperature,
+        schema: request.schema?.name
+      },
+      response
+    };
+
+    // Write to a temp file and rename so a crash never leaves a half-written fixture
+    fs.mkdirSync(dir, { recursive: true });
+    const tempPath = `${fixturePath(key)}.tmp`;
+    fs.writeFileSync(tempPath, `${JSON.stringify(fixture, null, 2)}\n`);
+    fs.renameSync(tempPath, fixturePath(key));
+    console.log('Recorded LLM fixture', { key });
+  };
+
+  if (mode === 'replay') {
+    return {
+      name: `${provider.name} (replay)`,
+      model: provider.model,
+
+      async complete(request) {
+        if (request.signal?.aborted) throw abortError();
+
+        const fixture = readFixture(request);
+        return { text: fixture.response.text, data: fixture.response.data, usage: fixture.response.usage, raw: null };
+      },
+
+      async stream(request, onText) {
+        const fixture = readFixture(request);
+        // Replay the recorded chunks so streaming behaves as it did when recorded, yielding
+        // between them so a cancelled request stops like a live one would
+        const chunks = fixture.response.chunks || [fixture.response.text];
+        for (const chunk of chunks) {
+          if (request.signal?.aborted) throw abortError();
+          onText(chunk);
+          await new Promise(resolve => setImmediate(resolve));
+        }
+        return { text: fixture.response.text, usage: fixture.response.usage };
+      }
+    };
+  }
+
+  if (mode === 'record') {
+    return {
+      name: `${provider.name} (recording)`,
+      model: provider.model,
+
+      async complete(request) {
+        const response = await provider.complete(request);
+        writeFixture(request, { text: response.text, data: response.data, usage: response.usage });
+        return response;
+      },
+
+      async stream(request, onText) {
+        const chunks = [];
+        const response = await provider.stream(request, chunk => {
+          chunks.push(chunk);
+          onText(chunk);
+        });
+        writeFixture(request, { text: response.text, chunks, usage: response.usage });
+        return response;
+      }
+    };
+  }
+
+  throw new Error(`Unknown LLM_FIXTURE_MODE "${mode}". Use "record" or "replay".`);
+};
+
+export default withFixtures;
@@ -0,0 +1,55 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import createAnthropicProvider from './anthropicProvider.js';
+import createOpenAIProvider from './openaiProvider.js';
+import createMockProvider from './mockProvider.js';
+import withFixtures from './fixtureProvider.js';
+
+// Load environment variables
+dotenv.config();
+
+// Pick the LLM provider from LLM_PROVIDER: "anthropic" (default), "openai" or "mock"
+const createProvider = () => {
+  const providerName = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase();
+
+  switch (providerName) {
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model: process.env.CLAUDE_MODEL || undefined
+      });
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL || undefined,
+        model: process.env.OPENAI_MODEL || undefined
+      });
+    case 'mock':
+      return createMockProvider({
+        streamDelayMs: Number(process.env.MOCK_LLM_STREAM_DELAY_MS) || 0
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Use "anthropic", "openai" or "mock".`);
+  }
+};
+
+// Optionally record calls to fixture files, or replay them, via LLM_FIXTURE_MODE ("record" or "replay")
+const createConfiguredProvider = () => {
+  const provider = createProvider();
+  const fixtureMode = process.env.LLM_FIXTURE_MODE;
+
+  if (!fixtureMode) {
+    return provider;
+  }
+
+  return withFixtures(provider, {
+    mode: fixtureMode.toLowerCase(),
+    dir: process.env.LLM_FIXTURE_DIR || path.join('fixtures', 'llm')
+  });
+};
+
+const provider = createConfiguredProvider();
+
+console.log('Using LLM provider:', { provider: provider.name, model: provider.model });
+
+export default provider;
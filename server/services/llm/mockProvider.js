@@ -0,0 +1,128 @@
+// Deterministic offline provider for development and tests.
+// The reply depends only on the prompt, so the same request always gets the same
+// answer. Structured requests get data matching their schema; plain text requests
+// follow whatever marker format the prompt asks for. No token usage is reported,
+// so usage accounting falls back to an estimate.
+
+import { contentText } from './content.js';
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small stable string hash (FNV-1a) used to vary replies between prompts
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const ANGLES = ['historical', 'practical', 'philosophical', 'scientific', 'personal'];
+
+// Pick the subject of the prompt: the quoted query or topic, or the start of the message
+const getSubject = (prompt) => {
+  const quoted = prompt.match(/(?:query|question is|topic):\s*"([^"\n]+)"/) || prompt.match(/"([^"\n]{3,200})"/);
+  const subject = (quoted ? quoted[1] : prompt.trim().slice(0, 80)).replace(/[?.!]+$/, '');
+  return subject || 'this topic';
+};
+
+const describePrompt = (system = '', messages = []) => {
+  const lastUserMessage = contentText([...messages].reverse().find(m => m.role === 'user')?.content);
+  const prompt = `${system}\n${lastUserMessage}`;
+  return {
+    prompt,
+    subject: getSubject(lastUserMessage),
+    angle: ANGLES[hashString(prompt) % ANGLES.length],
+    // Grounded prompts list numbered documents; the answer cites the first one
+    citation: /^\[1\] /m.test(lastUserMessage) ? ' [1]' : ''
+  };
+};
+
+const buildAnswer = (subject, angle, citation = '') => ({
+  answer: `This is a mock answer about "${subject}" from the offline provider. It looks at the question from a ${angle} angle so the rest of the app has realistic text to work with.${citation}\n\nNo model was called to produce this reply. Select a real provider with LLM_PROVIDER to get genuine answers.`,
+  followUpQuestions: [
+    `What is the ${angle} background of ${subject}?`,
+    `How would you apply ${subject} in practice?`,
+    `What are the strongest arguments against ${subject}?`
+  ]
+});
+
+// The longest distinct words of the text quoted in a topic extraction prompt
+const mockTopics = (prompt) => {
+  const text = prompt.match(/"""\n([\s\S]*)\n"""/)?.[1] || '';
+  const words = [...new Set(text.match(/\p{L}{7,}/gu) || [])];
+  return words.sort((a, b) => b.length - a.length).slice(0, 5);
+};
+
+// Data for a structured request, keyed by the schema's tool name
+const buildStructuredReply = (schema, { prompt, subject, angle, citation }) => {
+  switch (schema.name) {
+    case 'record_topics':
+      return { topics: mockTopics(prompt) };
+    case 'record_answer':
+      return buildAnswer(subject, angle, citation);
+    case 'record_explanation':
+      return { explanation: `"${subject}" explained by the offline provider from a ${angle} angle.` };
+    case 'record_synthesis':
+      return {
+        title: `Mock synthesis (${angle})`,
+        content: `This mock synthesis combines the selected insights from a ${angle} angle.`
+      };
+    default:
+      throw new Error(`Mock provider has no reply for schema "${schema.name}"`);
+  }
+};
+
+const buildTextReply = (prompt, subject, angle, citation) => {
+  const { answer, followUpQuestions } = buildAnswer(subject, angle, citation);
+
+  // Streamed answers put the follow-up questions after a marker such as <<<FOLLOW_UP_QUESTIONS>>>
+  const marker = prompt.match(/<<<[A-Z_]+>>>/);
+  if (marker) {
+    return `${answer}\n${marker[0]}\n${JSON.stringify(followUpQuestions)}`;
+  }
+
+  return answer;
+};
+
+const abortError = () => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Offline provider; `streamDelayMs` slows streaming down to make it visible in the UI
+const createMockProvider = ({ streamDelayMs = 0 } = {}) => ({
+  name: 'mock',
+  model: 'mock',
+
+  async complete({ system, messages, schema, signal }) {
+    if (signal?.aborted) throw abortError();
+
+    const { prompt, subject, angle, citation } = describePrompt(system, messages);
+
+    if (schema) {
+      const data = buildStructuredReply(schema, { prompt, subject, angle, citation });
+      return { text: JSON.stringify(data), data, raw: null };
+    }
+
+    return { text: buildTextReply(prompt, subject, angle, citation), raw: null };
+  },
+
+  async stream({ system, messages, signal }, onText) {
+    const { prompt, subject, angle, citation } = describePrompt(system, messages);
+    const text = buildTextReply(prompt, subject, angle, citation);
+
+    // Emit word by word, like a real token stream
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      if (signal?.aborted) throw abortError();
+      if (streamDelayMs > 0) await delay(streamDelayMs);
+      onText(chunk);
+    }
+
+    return { text };
+  }
+});
+
+export default createMockProvider;
@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { readEventStream } from '../../utils/sse.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Content blocks in the chat completions format, with images as data URLs
+const toChatContent = (content) => (Array.isArray(content)
+  ? content.map(block => (block.type === 'image'
+    ? { type: 'image_url', image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } }
+    : { type: 'text', text: block.text }))
+  : content);
+
+// The chat completions API takes the system prompt as the first message
+const toChatMessages = (system, messages) => [
+  ...(system ? [{ role: 'system', content: system }] : []),
+  ...messages.map(message => ({ ...message, content: toChatContent(message.content) }))
+];
+
+// Token counts in the shape every provider reports them
+const toUsage = (usage) => usage && {
+  inputTokens: usage.prompt_tokens || 0,
+  outputTokens: usage.completion_tokens || 0
+};
+
+// Per-request generation options; unset ones keep the endpoint defaults
+const generationOptions = ({ model, temperature }) => ({
+  ...(model && { model }),
+  ...(temperature !== undefined && { temperature })
+});
+
+// Provider for any OpenAI-compatible chat completions endpoint
+// (OpenAI, Azure-style gateways, vLLM, Ollama, LM Studio, ...)
+const createOpenAIProvider = ({ apiKey, baseURL = DEFAULT_BASE_URL, model = DEFAULT_MODEL }) => {
+  const url = `${baseURL.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = (body, { signal, stream = false }) => axios.post(
+    url,
+    { model, ...body, stream },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers usually accept requests without a key
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      responseType: stream ? 'stream' : 'json',
+      signal
+    }
+  );
+
+  return {
+    name: 'openai',
+    model,
+
+    async complete({ system, messages, maxTokens, model: requestModel, temperature, schema, signal }) {
+      const response = await post({
+        messages: toChatMessages(system, messages),
+        max_tokens: maxTokens,
+        ...generationOptions({ model: requestModel, temperature }),
+        // Structured output: force a function call whose parameters are the schema
+        ...(schema && {
+          tools: [{
+            type: 'function',
+            function: { name: schema.name, description: schema.description, parameters: schema.inputSchema }
+          }],
+          tool_choice: { type: 'function', function: { name: schema.name } }
+        })
+      }, { signal });
+
+      const message = response.data?.choices?.[0]?.message;
+      const usage = toUsage(response.data?.usage);
+      const toolCall = message?.tool_calls?.find(call => call.function?.name === schema?.name);
+
+      // Function arguments arrive as a JSON string; the service parses and validates them
+      if (toolCall) {
+        return { text: toolCall.function.arguments, usage, raw: response.data };
+      }
+
+      if (typeof message?.content !== 'string') {
+        throw new Error('Invalid response structure from OpenAI-compatible API');
+      }
+
+      return { text: message.content, usage, raw: response.data };
+    },
+
+    async stream({ system, messages, maxTokens, model: requestModel, temperature, signal }, onText) {
+      const response = await post({
+        messages: toChatMessages(system, messages),
+        max_tokens: maxTokens,
+        ...generationOptions({ model: requestModel, temperature }),
+        // Ask for a final chunk with the token counts; servers that ignore this report none
+        stream_options: { include_usage: true }
+      }, { signal, stream: true });
+      let text = '';
+      let usage;
+
+      await readEventStream(response.data, ({ data }) => {
+        if (data === '[DONE]') return;
+
+        const payload = JSON.parse(data);
+        if (payload.error) {
+          const streamError = new Error(payload.error.message || 'OpenAI-compatible API stream error');
+          streamError.response = { data: payload };
+          throw streamError;
+        }
+
+        if (payload.usage) {
+          usage = toUsage(payload.usage);
+        }
+
+        const delta = payload.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      });
+
+      return { text, usage };
+    }
+  };
+};
+
+export default createOpenAIProvider;
@@ -0,0 +1,130 @@
+// Response schemas for structured LLM output.
+// Each schema is sent to the provider as a tool (or function) definition, so the
+// model answers with arguments matching `inputSchema`. Replies are still checked
+// with validateAgainstSchema because models don't always honour the schema.
+
+export const ANSWER_SCHEMA = {
+  name: 'record_answer',
+  description: 'Record the answer to the user\'s question together with follow-up questions to explore next.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      answer: {
+        type: 'string',
+        minLength: 1,
+        description: 'A thoughtful response that explores the query in detail, at the requested length'
+      },
+      followUpQuestions: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 5,
+        items: { type: 'string', minLength: 1 },
+        description: 'Thought-provoking follow-up questions, as many as requested'
+      }
+    },
+    required: ['answer', 'followUpQuestions']
+  }
+};
+
+export const EXPLANATION_SCHEMA = {
+  name: 'record_explanation',
+  description: 'Record an explanation of the requested topic.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      explanation: {
+        type: 'string',
+        minLength: 1,
+        description: 'A clear and concise explanation of the topic in 1-2 paragraphs'
+      }
+    },
+    required: ['explanation']
+  }
+};
+
+export const SYNTHESIS_SCHEMA = {
+  name: 'record_synthesis',
+  description: 'Record a synthesis of the selected insights.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      title: {
+        type: 'string',
+        minLength: 1,
+        description: 'A meaningful title for the synthesis'
+      },
+      content: {
+        type: 'string',
+        minLength: 1,
+        description: 'The synthesized content'
+      }
+    },
+    required: ['title', 'content']
+  }
+};
+
+export const TOPICS_SCHEMA = {
+  name: 'record_topics',
+  description: 'Record the key concepts of a text, each exactly as it is written there.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      topics: {
+        type: 'array',
+        maxItems: 12,
+        items: { type: 'string', minLength: 1 },
+        description: 'The key concepts worth exploring further, each copied word for word from the text'
+      }
+    },
+    required: ['topics']
+  }
+};
+
+const typeOf = (value) => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+// Validate a value against the subset of JSON Schema used above.
+// Returns a list of human-readable problems (empty when the value is valid).
+export const validateAgainstSchema = (value, schema, pathLabel = 'response') => {
+  const errors = [];
+
+  if (typeOf(value) !== schema.type) {
+    return [`${pathLabel} must be of type ${schema.type}, got ${typeOf(value)}`];
+  }
+
+  if (schema.type === 'string' && schema.minLength && value.trim().length < schema.minLength) {
+    errors.push(`${pathLabel} must not be empty`);
+  }
+
+  if (schema.type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${pathLabel} must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${pathLabel} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items, `${pathLabel}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === 'object') {
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) {
+        errors.push(`${pathLabel}.${key} is required`);
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (value[key] !== undefined) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, `${pathLabel}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+};
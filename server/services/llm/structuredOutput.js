@@ -0,0 +1,75 @@
+// Schema-validated output with bounded repair: a reply that fails validation is shown
+// back to the model together with its problems, and the model is asked again.
+
+import { validateAgainstSchema } from './schemas.js';
+
+// Number of re-prompts allowed when a structured reply fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Error raised when the model keeps returning output that doesn't match the schema
+export class StructuredOutputError extends Error {
+  constructor(schemaName, validationErrors) {
+    super(`Model output did not match the ${schemaName} schema: ${validationErrors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.validationErrors = validationErrors;
+  }
+}
+
+// Read the structured data from a provider reply; providers without tool support return JSON text
+const extractStructuredData = (response) => {
+  if (response.data !== undefined) {
+    return response.data;
+  }
+
+  try {
+    return JSON.parse(response.text);
+  } catch (parseError) {
+    return undefined;
+  }
+};
+
+/**
+ * Request output matching a schema, re-prompting up to MAX_REPAIR_ATTEMPTS times
+ * @param {Function} call - async (messages) => provider reply { text, data? }
+ * @param {Array<Object>} messages - The messages of the request
+ * @param {Object} schema - One of the schemas in schemas.js
+ * @returns {Promise<Object>} - The validated data; throws StructuredOutputError when the
+ *   last attempt still fails validation
+ */
+export const requestStructured = async (call, messages, schema) => {
+  let conversation = messages;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await call(conversation);
+    const data = extractStructuredData(response);
+    const validationErrors = data === undefined
+      ? ['response was not valid JSON']
+      : validateAgainstSchema(data, schema.inputSchema);
+
+    if (validationErrors.length === 0) {
+      return data;
+    }
+
+    console.error('Structured output failed validation:', {
+      schema: schema.name,
+      attempt: attempt + 1,
+      validationErrors
+    });
+
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError(schema.name, validationErrors);
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: response.text || '(empty response)' },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required format:
+${validationErrors.map(error => `- ${error}`).join('\n')}
+
+Call the ${schema.name} tool again with corrected input.`
+      }
+    ];
+  }
+};
@@ -0,0 +1,108 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Load environment variables
+dotenv.config();
+
+// Templates shipped with the server
+const DEFAULT_PROMPTS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'prompts');
+
+// Template files are named <name>.v<version>.txt, e.g. initial-query.v2.txt
+const TEMPLATE_FILE_PATTERN = /^([a-z0-9-]+)\.v(\d+)\.txt$/;
+
+// Variables are written as {{variableName}}
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}/g;
+
+// Error raised for unknown templates or missing template variables
+class PromptTemplateError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Read every template file in a directory
+const readTemplates = (dir, source) => fs.readdirSync(dir)
+  .map(file => ({ file, match: file.match(TEMPLATE_FILE_PATTERN) }))
+  .filter(({ match }) => match)
+  .map(({ file, match }) => ({
+    name: match[1],
+    version: Number(match[2]),
+    source,
+    text: fs.readFileSync(path.join(dir, file), 'utf8').trimEnd()
+  }));
+
+// Keep the highest version of each template name
+const latestByName = (templates) => templates.reduce((latest, template) => {
+  const current = latest.get(template.name);
+  if (!current || template.version > current.version) {
+    latest.set(template.name, template);
+  }
+  return latest;
+}, new Map());
+
+// Registry of named, versioned prompt templates. The highest version of each
+// template is used. Templates in overrideDir replace the built-in template of the
+// same name whatever its version, so a deployment can customise or pin prompts.
+const createPromptRegistry = ({ defaultDir = DEFAULT_PROMPTS_DIR, overrideDir } = {}) => {
+  const templates = latestByName(readTemplates(defaultDir, 'default'));
+
+  if (overrideDir) {
+    if (!fs.existsSync(overrideDir)) {
+      throw new Error(`Prompt override directory not found: ${overrideDir}`);
+    }
+    latestByName(readTemplates(overrideDir, 'override')).forEach((template, name) => {
+      templates.set(name, template);
+    });
+  }
+
+  console.log('Loaded prompt templates:', Array.from(templates.values()).map(
+    template => `${template.name}@v${template.version}${template.source === 'override' ? ' (override)' : ''}`
+  ));
+
+  const getTemplate = (name) => {
+    const template = templates.get(name);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template: ${name}`);
+    }
+    return template;
+  };
+
+  return {
+    /**
+     * Fill in a template's variables
+     * @param {string} name - Template name
+     * @param {Object} variables - Values for the template's {{variables}}
+     * @returns {Object} - The rendered text and the { name, version, source } of the template used
+     */
+    render(name, variables = {}) {
+      const template = getTemplate(name);
+      const missing = new Set();
+
+      const text = template.text.replace(VARIABLE_PATTERN, (placeholder, variable) => {
+        if (variables[variable] === undefined || variables[variable] === null) {
+          missing.add(variable);
+          return placeholder;
+        }
+        return String(variables[variable]);
+      });
+
+      if (missing.size > 0) {
+        throw new PromptTemplateError(
+          `Prompt template ${name}@v${template.version} is missing variables: ${Array.from(missing).join(', ')}`
+        );
+      }
+
+      return {
+        text,
+        template: { name: template.name, version: template.version, source: template.source }
+      };
+    }
+  };
+};
+
+const promptRegistry = createPromptRegistry({ overrideDir: process.env.PROMPTS_OVERRIDE_DIR || undefined });
+
+export default promptRegistry;
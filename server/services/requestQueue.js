@@ -0,0 +1,221 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Tokens all users' LLM calls may use together per window, and the window's length
+const RATE_LIMIT = Number(process.env.LLM_RATE_LIMIT_TOKENS) || 4000;
+const RATE_LIMIT_WINDOW = (Number(process.env.LLM_RATE_LIMIT_WINDOW_SECONDS) || 60) * 1000;
+
+// Size assumed for calls until real ones have been measured
+const DEFAULT_CALL_TOKENS = 1000;
+
+// Calls one user may have waiting at once; further requests are refused
+const MAX_QUEUED_PER_USER = Number(process.env.LLM_QUEUE_MAX_PER_USER) || 5;
+
+// Error raised when a user already has the maximum number of calls waiting
+export class QueueFullError extends Error {
+  constructor(retryAfterSeconds) {
+    super(`Too many requests waiting. Please try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'QueueFullError';
+    this.code = 'QUEUE_FULL';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const abortError = () => {
+  const error = new Error('Request cancelled while queued');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Queue that admits LLM calls while the shared token window has room. Each user has
+// their own line and users take turns, so one busy user can't starve the others.
+// A call's size is only known once it has finished, so calls in flight are assumed
+// to be the average size of recent calls until they are charged.
+export const createRequestQueue = ({
+  tokenLimit = RATE_LIMIT,
+  windowMs = RATE_LIMIT_WINDOW,
+  maxQueuedPerUser = MAX_QUEUED_PER_USER
+} = {}) => {
+  let windowStart = Date.now();
+  let windowTokens = 0;
+  let inFlight = 0;
+  let averageCallTokens = DEFAULT_CALL_TOKENS;
+  let drainTimer = null;
+
+  // Waiting calls per user; the Map's order is the order users take their turns in
+  const lines = new Map();
+
+  const resetExpiredWindow = (now) => {
+    if (now - windowStart >= windowMs) {
+      windowStart = now;
+      windowTokens = 0;
+    }
+  };
+
+  const msUntilWindowReset = (now) => Math.max(windowStart + windowMs - now, 0);
+
+  // A lone call is always let through while the window has tokens left, so a limit
+  // smaller than one call can't block the queue forever
+  const hasRoom = () => (inFlight === 0
+    ? windowTokens < tokenLimit
+    : windowTokens + (inFlight + 1) * averageCallTokens <= tokenLimit);
+
+  // Waiting calls in the order they will be admitted: the first call of every user
+  // in turn, then everyone's second call, and so on
+  const admissionOrder = () => {
+    const userLines = Array.from(lines.values());
+    const order = [];
+    const longest = Math.max(0, ...userLines.map(line => line.length));
+
+    for (let round = 0; round < longest; round++) {
+      userLines.forEach(line => {
+        if (line[round]) order.push(line[round]);
+      });
+    }
+    return order;
+  };
+
+  // Rough wait for the call at a 1-based position: the rest of the current window,
+  // plus a full window for every window's worth of calls ahead of it
+  const estimateWaitSeconds = (position, now) => {
+    const callsPerWindow = Math.max(Math.floor(tokenLimit / averageCallTokens), 1);
+    const waitMs = msUntilWindowReset(now) + Math.floor((position - 1) / callsPerWindow) * windowMs;
+    return Math.max(Math.ceil(waitMs / 1000), 1);
+  };
+
+  // Tell waiting calls where they are, only when that has changed
+  const notifyPositions = () => {
+    const now = Date.now();
+
+    admissionOrder().forEach((entry, index) => {
+      const status = { position: index + 1, etaSeconds: estimateWaitSeconds(index + 1, now) };
+      if (entry.lastStatus?.position !== status.position) {
+        entry.lastStatus = status;
+        entry.onQueued?.(status);
+      }
+    });
+  };
+
+  const removeEntry = (entry) => {
+    const line = lines.get(entry.userId);
+    if (!line) return;
+
+    const index = line.indexOf(entry);
+    if (index !== -1) line.splice(index, 1);
+    if (line.length === 0) lines.delete(entry.userId);
+  };
+
+  const admit = (entry) => {
+    let released = false;
+    inFlight++;
+    entry.signal?.removeEventListener('abort', entry.onAbort);
+
+    // Calls that were told they were waiting hear that they have started
+    if (entry.lastStatus) {
+      entry.onQueued?.({ position: 0, etaSeconds: 0 });
+    }
+
+    entry.resolve({
+      // Count the tokens the call used towards the current window
+      charge(tokens) {
+        resetExpiredWindow(Date.now());
+        windowTokens += tokens;
+        averageCallTokens = Math.round(averageCallTokens * 0.8 + tokens * 0.2);
+      },
+
+      // Free the call's place once it has finished, successfully or not
+      release() {
+        if (released) return;
+        released = true;
+        inFlight--;
+        drain();
+      }
+    });
+  };
+
+  // Admit waiting calls while there is room, taking users in turn
+  const drain = () => {
+    resetExpiredWindow(Date.now());
+
+    while (lines.size > 0 && hasRoom()) {
+      const [userId, line] = lines.entries().next().value;
+      const entry = line.shift();
+
+      // Move the user to the back of the rotation
+      lines.delete(userId);
+      if (line.length > 0) lines.set(userId, line);
+
+      admit(entry);
+    }
+
+    notifyPositions();
+
+    // Waiting calls that in-flight calls won't make room for get another try when the window resets
+    if (lines.size > 0 && !drainTimer) {
+      drainTimer = setTimeout(() => {
+        drainTimer = null;
+        drain();
+      }, msUntilWindowReset(Date.now()) || windowMs);
+    }
+  };
+
+  const firstWaitSeconds = (userId) => {
+    const now = Date.now();
+    const position = admissionOrder().findIndex(entry => entry.userId === userId) + 1;
+    return estimateWaitSeconds(position || 1, now);
+  };
+
+  return {
+    /**
+     * Wait for a turn to make an LLM call
+     * @param {string} userId - The user the call is made for
+     * @param {Object} options - onQueued({ position, etaSeconds }) while the call waits, called
+     *   with position 0 once it starts, and an optional AbortSignal that takes it out of the queue
+     * @returns {Promise<Object>} - The turn: charge(tokens) once the call's usage is known, and
+     *   release() when the call has finished
+     */
+    acquire(userId, { onQueued, signal } = {}) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+
+        const line = lines.get(userId) || [];
+        if (line.length >= maxQueuedPerUser) {
+          reject(new QueueFullError(firstWaitSeconds(userId)));
+          return;
+        }
+
+        const entry = { userId, onQueued, signal, resolve, lastStatus: null };
+        entry.onAbort = () => {
+          removeEntry(entry);
+          reject(abortError());
+          notifyPositions();
+        };
+        signal?.addEventListener('abort', entry.onAbort, { once: true });
+
+        line.push(entry);
+        lines.set(userId, line);
+        drain();
+      });
+    },
+
+    /**
+     * Check whether a user already has the maximum number of calls waiting
+     * @param {string} userId - The user
+     * @returns {number|null} - Seconds until the user's first waiting call is expected to
+     *   start if their line is full, otherwise null
+     */
+    getRetryAfter(userId) {
+      const line = lines.get(userId);
+      return line && line.length >= maxQueuedPerUser ? firstWaitSeconds(userId) : null;
+    }
+  };
+};
+
+const requestQueue = createRequestQueue();
+
+export default requestQueue;
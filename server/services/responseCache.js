@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Read a whole number setting from the environment; unset or empty uses the default
+const readSetting = (name, defaultValue) => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`${name} must be a whole number of 0 or more, got "${value}"`);
+  }
+  return number;
+};
+
+// How long a response is served from the cache; 0 turns the cache off
+const CACHE_TTL_SECONDS = readSetting('LLM_CACHE_TTL_SECONDS', 3600);
+
+// Responses kept at once; the least recently used are dropped to make room
+const CACHE_MAX_ENTRIES = readSetting('LLM_CACHE_MAX_ENTRIES', 500);
+
+/**
+ * Key a response by everything that shapes it
+ * @param {Object} request - The operation, provider, model, temperature, maxTokens, prompt
+ *   template versions, the conversation turns sent before the prompt and the rendered prompt
+ * @returns {string} - The cache key
+ */
+export const getCacheKey = ({ operation, provider, model, temperature, maxTokens, promptTemplates, conversation = [], prompt }) => {
+  const normalized = JSON.stringify({
+    operation,
+    provider,
+    model,
+    temperature,
+    maxTokens,
+    promptTemplates: promptTemplates.map(({ name, version, source }) => ({ name, version, source })),
+    conversation,
+    prompt
+  });
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
+
+// In-memory cache of LLM responses, shared by all users. Entries expire after the TTL,
+// and the Map's order doubles as recency order, so the oldest entry is dropped first
+// when the cache is full.
+export const createResponseCache = ({
+  ttlMs = CACHE_TTL_SECONDS * 1000,
+  maxEntries = CACHE_MAX_ENTRIES
+} = {}) => {
+  const entries = new Map();
+  const enabled = ttlMs > 0 && maxEntries > 0;
+
+  return {
+    enabled,
+
+    /**
+     * Look up a cached response
+     * @param {string} key - The response's cache key
+     * @returns {Object|null} - The response and when it was cached, or null if it isn't
+     *   cached or has expired
+     */
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      entries.delete(key);
+      if (Date.now() - entry.cachedAt >= ttlMs) {
+        return null;
+      }
+
+      // Re-insert to mark the entry as the most recently used
+      entries.set(key, entry);
+      return { value: entry.value, cachedAt: new Date(entry.cachedAt).toISOString() };
+    },
+
+    /**
+     * Store a response
+     * @param {string} key - The response's cache key
+     * @param {Object} value - The response
+     */
+    set(key, value) {
+      if (!enabled) return;
+
+      entries.delete(key);
+      entries.set(key, { value, cachedAt: Date.now() });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    }
+  };
+};
+
+const responseCache = createResponseCache();
+
+export default responseCache;
@@ -0,0 +1,36 @@
+// Characters that continue a word, so a topic isn't found inside a longer word
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isWordBoundary = (text, index) => index <= 0 || index >= text.length ||
+  !WORD_CHARACTER.test(text[index - 1]) || !WORD_CHARACTER.test(text[index]);
+
+/**
+ * Find where the topics picked out of a text appear in it. Every whole-word occurrence is
+ * marked, ignoring case; longer topics win where two overlap, and topics that don't appear in
+ * the text are dropped.
+ * @param {string} text - The text the topics were picked from
+ * @param {Array<string>} topics - The topics, as written in the text
+ * @returns {Array<Object>} - { topic, start, end } for each occurrence in text order, where
+ *   topic is the text between the start and end character offsets
+ */
+export const findTopicSpans = (text, topics) => {
+  const spans = [];
+  const unique = [...new Set(topics.map(topic => topic.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length);
+
+  for (const topic of unique) {
+    for (const match of text.matchAll(new RegExp(escapeRegExp(topic), 'giu'))) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = spans.some(span => start < span.end && end > span.start);
+
+      if (!overlaps && isWordBoundary(text, start) && isWordBoundary(text, end)) {
+        spans.push({ topic: match[0], start, end });
+      }
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,168 @@
+import dotenv from 'dotenv';
+import repository from '../repositories/index.js';
+import { contentImages, contentText } from './llm/content.js';
+
+// Load environment variables
+dotenv.config();
+
+// Read a token limit from the environment; unset or empty means unlimited
+const readLimit = (name) => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return limit;
+};
+
+// Tokens each user may use per period. Periods follow the UTC calendar: the daily
+// quota resets at midnight UTC and the monthly quota on the first of the month.
+const QUOTAS = {
+  daily: readLimit('USAGE_DAILY_TOKEN_LIMIT'),
+  monthly: readLimit('USAGE_MONTHLY_TOKEN_LIMIT')
+};
+
+const PERIODS = {
+  daily: {
+    start: (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    end: (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+  },
+  monthly: {
+    start: (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  }
+};
+
+// Rough token count for text, used when a provider doesn't report usage
+export const estimateTokens = (text) => Math.ceil(String(text ?? '').length / 4);
+
+// Rough token count for an image; providers charge by size, up to about this much
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+// Rough token count for message content, text and images
+const estimateContentTokens = (content) =>
+  estimateTokens(contentText(content)) + contentImages(content).length * IMAGE_TOKEN_ESTIMATE;
+
+/**
+ * Estimate the tokens used by a call whose provider reported no usage
+ * @param {Object} request - The system prompt and messages sent
+ * @param {string} text - The reply text
+ * @returns {Object} - inputTokens and outputTokens, flagged as estimated
+ */
+export const estimateUsage = ({ system, messages = [] }, text) => ({
+  inputTokens: estimateTokens(system) + messages.reduce((total, m) => total + estimateContentTokens(m.content), 0),
+  outputTokens: estimateTokens(text),
+  estimated: true
+});
+
+// Add up the tokens used by a list of usage records
+const sumTokens = (records) => records.reduce((totals, record) => ({
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  totalTokens: totals.totalTokens + record.inputTokens + record.outputTokens,
+  requests: totals.requests + 1
+}), { inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0 });
+
+// Usage within one quota period, with its limit and when it resets
+const summarizePeriod = (period, records, now) => {
+  const start = PERIODS[period].start(now);
+  const totals = sumTokens(records.filter(record => new Date(record.createdAt) >= start));
+  const limit = QUOTAS[period];
+
+  return {
+    ...totals,
+    limit,
+    remaining: limit === null ? null : Math.max(limit - totals.totalTokens, 0),
+    resetAt: PERIODS[period].end(now).toISOString()
+  };
+};
+
+// Records for this month, which also cover today
+const getMonthRecords = (userId, now) => repository.getUsageRecordsByUserId(userId, PERIODS.monthly.start(now));
+
+// Usage service
+const usageService = {
+  /**
+   * Store the tokens used by one LLM call. Failures are logged rather than thrown,
+   * so a storage problem never fails the request that made the call.
+   * @param {Object} record - userId, optional canvasId, operation, provider, model,
+   *   inputTokens, outputTokens and whether the counts are estimated
+   * @returns {Promise<Object|null>} - The stored record, or null if it couldn't be stored
+   */
+  async recordUsage(record) {
+    try {
+      return await repository.createUsageRecord(record);
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error.message, {
+        userId: record.userId,
+        operation: record.operation
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Summarize a user's token usage
+   * @param {string} userId - The user
+   * @param {Date} now - The time to summarize at, defaulting to now
+   * @returns {Promise<Object>} - Daily and monthly totals with their limits, and this month's
+   *   totals per canvas, largest first
+   */
+  async getUsageSummary(userId, now = new Date()) {
+    const [records, canvases] = await Promise.all([
+      getMonthRecords(userId, now),
+      repository.getCanvasesByUserId(userId)
+    ]);
+    const titles = new Map(canvases.map(canvas => [canvas.id.toString(), canvas.title]));
+
+    const recordsByCanvas = new Map();
+    records.forEach(record => {
+      const canvasId = record.canvasId ? record.canvasId.toString() : null;
+      recordsByCanvas.set(canvasId, [...(recordsByCanvas.get(canvasId) || []), record]);
+    });
+
+    return {
+      daily: summarizePeriod('daily', records, now),
+      monthly: summarizePeriod('monthly', records, now),
+      canvases: Array.from(recordsByCanvas.entries())
+        .map(([canvasId, canvasRecords]) => ({
+          canvasId,
+          // Usage outlives deleted canvases, and requests made before a canvas is saved have none
+          title: canvasId ? titles.get(canvasId) || null : null,
+          ...sumTokens(canvasRecords)
+        }))
+        .sort((a, b) => b.totalTokens - a.totalTokens)
+    };
+  },
+
+  /**
+   * Check whether a user has used up a quota. A call is only refused once the limit
+   * is reached, so the call that crosses it still completes.
+   * @param {string} userId - The user
+   * @param {Date} now - The time to check at, defaulting to now
+   * @returns {Promise<Object|null>} - The exceeded period with its limit, tokens used and
+   *   reset time, or null if the user may make more calls
+   */
+  async checkQuota(userId, now = new Date()) {
+    if (QUOTAS.daily === null && QUOTAS.monthly === null) {
+      return null;
+    }
+
+    const records = await getMonthRecords(userId, now);
+
+    for (const period of ['daily', 'monthly']) {
+      const usage = summarizePeriod(period, records, now);
+      if (usage.limit !== null && usage.totalTokens >= usage.limit) {
+        return { period, limit: usage.limit, used: usage.totalTokens, resetAt: usage.resetAt };
+      }
+    }
+
+    return null;
+  }
+};
+
+export default usageService;
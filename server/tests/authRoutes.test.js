@@ -0,0 +1,31 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymous, signUp, startServer } from './testServer.js';
+
+describe('auth routes', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer();
+    await signUp(server.baseUrl, 'auth-user');
+    client = anonymous(server.baseUrl);
+  });
+
+  after(() => server.close());
+
+  test('sign in with the right password', async () => {
+    const { status, body } = await client.request('POST', '/api/auth/login', { username: 'auth-user', password: 'password123' });
+    assert.equal(status, 200);
+    assert.equal(body.data.user.username, 'auth-user');
+    assert.equal(body.data.user.password, undefined);
+  });
+
+  test('refuse a wrong password and an unknown user alike', async () => {
+    const wrongPassword = await client.request('POST', '/api/auth/login', { username: 'auth-user', password: 'password124' });
+    const unknownUser = await client.request('POST', '/api/auth/login', { username: 'nobody', password: 'password123' });
+
+    assert.equal(wrongPassword.status, 401);
+    assert.deepEqual(unknownUser, wrongPassword);
+  });
+});
@@ -0,0 +1,55 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymous, createCanvas, signUp, startServer } from './testServer.js';
+
+describe('canvas routes', () => {
+  let server;
+  let owner;
+  let other;
+  let canvasId;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signUp(server.baseUrl, 'canvas-owner');
+    other = await signUp(server.baseUrl, 'canvas-other');
+    canvasId = await createCanvas(owner);
+  });
+
+  after(() => server.close());
+
+  const routes = (id) => [
+    ['GET', `/api/canvas/${id}`],
+    ['PUT', `/api/canvas/${id}`, { title: 'Renamed' }]
+  ];
+
+  test('require a session', async () => {
+    const client = anonymous(server.baseUrl);
+    for (const [method, path, body] of [...routes(canvasId), ['GET', '/api/canvas'], ['POST', '/api/canvas', { title: 'x', initialQuery: 'y' }]]) {
+      const { status } = await client.request(method, path, body);
+      assert.equal(status, 401, `${method} ${path}`);
+    }
+  });
+
+  test('refuse another user\'s canvas', async () => {
+    for (const [method, path, body] of routes(canvasId)) {
+      const { status } = await other.request(method, path, body);
+      assert.equal(status, 403, `${method} ${path}`);
+    }
+
+    const { status } = await other.request('GET', `/api/canvas/user/${owner.user.id}`);
+    assert.equal(status, 403);
+  });
+
+  test('report an unknown canvas as not found', async () => {
+    for (const [method, path, body] of routes('canvas_unknown')) {
+      const { status } = await owner.request(method, path, body);
+      assert.equal(status, 404, `${method} ${path}`);
+    }
+  });
+
+  test('serve the owner\'s canvas', async () => {
+    const { status, body } = await owner.request('GET', `/api/canvas/${canvasId}`);
+    assert.equal(status, 200);
+    assert.equal(body.data.id, canvasId);
+  });
+});
@@ -0,0 +1,75 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { anonymous, createCanvas, signUp, startServer } from './testServer.js';
+
+describe('claude routes', () => {
+  let server;
+  let owner;
+  let other;
+  let canvasId;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signUp(server.baseUrl, 'claude-owner');
+    other = await signUp(server.baseUrl, 'claude-other');
+    canvasId = await createCanvas(owner);
+  });
+
+  after(() => server.close());
+
+  const usageCanvasIds = async (client) => {
+    const { body } = await client.request('GET', '/api/usage');
+    return body.data.canvases.map(canvas => canvas.canvasId);
+  };
+
+  test('require a session', async () => {
+    const client = anonymous(server.baseUrl);
+    for (const path of ['/api/claude/query', '/api/claude/follow-up', '/api/claude/synthesize']) {
+      const { status } = await client.request('POST', path, { query: 'Why?', context: [], contexts: [] });
+      assert.equal(status, 401, path);
+    }
+  });
+
+  test('refuse to pick topics out of overly long text', async () => {
+    const { status } = await owner.request('POST', '/api/claude/topics', { text: 'Sleep '.repeat(5000) });
+    assert.equal(status, 400);
+  });
+
+  test('record usage against the owner\'s canvas', async () => {
+    const { status } = await owner.request('POST', '/api/claude/query', { query: 'Why do we dream?', canvasId });
+    assert.equal(status, 200);
+    assert.deepEqual(await usageCanvasIds(owner), [canvasId]);
+  });
+
+  test('leave another user\'s canvas out of the usage record', async () => {
+    const { status } = await other.request('POST', '/api/claude/query', { query: 'Why do we yawn?', canvasId });
+    assert.equal(status, 200);
+    assert.deepEqual(await usageCanvasIds(other), [null]);
+  });
+
+  test('keep answers written from a user\'s attachments out of other users\' cache hits', async () => {
+    const userDir = path.join(process.cwd(), 'uploads', owner.user.id);
+    await fs.mkdir(userDir, { recursive: true });
+    await fs.writeFile(path.join(userDir, 'notes.txt'), 'Private notes about sleep');
+
+    try {
+      const context = [{
+        role: 'user',
+        content: 'Why do we sleep?',
+        attachments: [{ fileName: 'notes.txt', fileType: 'text/plain', filePath: path.join(userDir, 'notes.txt') }]
+      }];
+      const followUp = { query: 'What do my notes say?', context };
+
+      await owner.request('POST', '/api/claude/follow-up', followUp);
+      const { body: again } = await owner.request('POST', '/api/claude/follow-up', followUp);
+      assert.equal(again.data.cached, true);
+
+      const { body } = await other.request('POST', '/api/claude/follow-up', followUp);
+      assert.equal(body.data.cached, undefined);
+    } finally {
+      await fs.rm(userDir, { recursive: true, force: true });
+    }
+  });
+});
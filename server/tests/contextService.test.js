@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitContext } from '../services/contextService.js';
+
+// Turns of 100 tokens; each test uses its own letter, as summaries are cached by content
+const turn = (role, letter, index) => ({ role, content: `${letter}${index} `.padEnd(400, letter) });
+const conversation = (letter, length) => Array.from({ length }, (_, index) => turn(index % 2 ? 'assistant' : 'user', letter, index));
+
+// A summarizer that records what it was asked to fold in
+const recordingSummarizer = () => {
+  const calls = [];
+  const summarize = async (previousSummary, turns, maxTokens) => {
+    calls.push({ previousSummary, turns, maxTokens });
+    return `${previousSummary}[${turns.map(({ content }) => content.slice(0, 2)).join(',')}]`;
+  };
+  return { summarize, calls };
+};
+
+describe('fitContext', () => {
+  test('send a context within the budget verbatim', async () => {
+    const { summarize, calls } = recordingSummarizer();
+    const context = conversation('a', 3);
+
+    const { turns, promptContext } = await fitContext(context, 300, summarize);
+
+    assert.deepEqual(turns, context);
+    assert.equal(promptContext.tokens, 300);
+    assert.deepEqual(promptContext.parts.map(({ kind, role, tokens }) => [kind, role, tokens]), [
+      ['verbatim', 'user', 100],
+      ['verbatim', 'assistant', 100],
+      ['verbatim', 'user', 100]
+    ]);
+    assert.equal(calls.length, 0);
+  });
+
+  test('summarize older turns, folding only new ones into an earlier summary', async () => {
+    const { summarize, calls } = recordingSummarizer();
+    const context = conversation('b', 5);
+
+    // A quarter of the budget is kept for the summary, which leaves room for two recent turns
+    const first = await fitContext(context.slice(0, 4), 300, summarize);
+
+    assert.equal(calls.length, 1);
+    assert.deepEqual(calls[0], { previousSummary: '', turns: context.slice(0, 2), maxTokens: 75 });
+    assert.deepEqual(first.turns, [
+      { role: 'user', content: 'Summary of our earlier conversation: [b0,b1]' },
+      ...context.slice(2, 4)
+    ]);
+    assert.deepEqual(first.promptContext.parts.map(({ kind, ancestorCount }) => [kind, ancestorCount]), [
+      ['summary', 2],
+      ['verbatim', 1],
+      ['verbatim', 1]
+    ]);
+
+    // One level deeper, the summary of the first two turns is reused
+    const second = await fitContext(context, 300, summarize);
+
+    assert.equal(calls.length, 2);
+    assert.deepEqual(calls[1], { previousSummary: '[b0,b1]', turns: [context[2]], maxTokens: 75 });
+    assert.equal(second.turns[0].content, 'Summary of our earlier conversation: [b0,b1][b2]');
+    assert.deepEqual(second.turns.slice(1), context.slice(3));
+
+    // The same ancestors again need no summarizing at all
+    await fitContext(context, 300, summarize);
+    assert.equal(calls.length, 2);
+  });
+
+  test('keep a single turn over the budget without summarizing', async () => {
+    const { summarize, calls } = recordingSummarizer();
+    const context = [{ role: 'user', content: 'c'.repeat(2000) }];
+
+    const { turns, promptContext } = await fitContext(context, 300, summarize);
+
+    assert.deepEqual(turns, context);
+    assert.deepEqual(promptContext, {
+      budget: 300,
+      tokens: 500,
+      parts: [{ kind: 'verbatim', role: 'user', ancestorCount: 1, tokens: 500, excerpt: `${'c'.repeat(157)}...` }]
+    });
+    assert.equal(calls.length, 0);
+  });
+
+  test('leave out older turns when they cannot be summarized', async () => {
+    const context = conversation('d', 4);
+    const failing = async () => {
+      throw new Error('Provider unavailable');
+    };
+
+    const { turns, promptContext } = await fitContext(context, 300, failing);
+
+    assert.deepEqual(turns, context.slice(2));
+    assert.equal(promptContext.tokens, 200);
+    assert.deepEqual(promptContext.parts[0], { kind: 'omitted', ancestorCount: 2, tokens: 0 });
+  });
+
+  test('stop when the request is cancelled while summarizing', async () => {
+    const controller = new AbortController();
+    const cancelled = async () => {
+      controller.abort();
+      throw Object.assign(new Error('Request cancelled'), { name: 'AbortError' });
+    };
+
+    await assert.rejects(fitContext(conversation('e', 4), 300, cancelled, controller.signal), { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import FileStore from '../config/fileStore.js';
+
+describe('file store', () => {
+  let dataDir;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filestore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // A store over the test's data directory, loaded as LocalDB loads it at startup
+  const open = () => {
+    const store = new FileStore(dataDir, ['canvases']);
+    return { store, state: store.load() };
+  };
+
+  const ids = (state) => Array.from(state.canvases.keys()).sort();
+  const journalPath = () => path.join(dataDir, 'journal.jsonl');
+
+  test('replay puts and deletes from the journal', () => {
+    const { store } = open();
+    store.put('canvases', { id: 'a', title: 'First' });
+    store.put('canvases', { id: 'b', title: 'Second' });
+    store.put('canvases', { id: 'a', title: 'Renamed' });
+    store.remove('canvases', 'b');
+
+    const { state } = open();
+    assert.deepEqual(ids(state), ['a']);
+    assert.equal(state.canvases.get('a').title, 'Renamed');
+  });
+
+  test('drop a truncated last record and keep writing after it', () => {
+    const { store } = open();
+    store.put('canvases', { id: 'a', title: 'Kept' });
+    const validLength = fs.statSync(journalPath()).size;
+    fs.appendFileSync(journalPath(), '{"op":"put","collection":"canvases","record":{"id":"b"');
+
+    const reopened = open();
+    assert.deepEqual(ids(reopened.state), ['a']);
+    assert.equal(fs.statSync(journalPath()).size, validLength);
+
+    reopened.store.put('canvases', { id: 'c', title: 'After the crash' });
+    assert.deepEqual(ids(open().state), ['a', 'c']);
+  });
+
+  test('lose nothing when a crash comes between the snapshot rename and the journal truncate', () => {
+    const { store, state } = open();
+    store.put('canvases', { id: 'a', title: 'First' });
+    store.put('canvases', { id: 'b', title: 'Second' });
+    store.remove('canvases', 'b');
+    state.canvases.set('a', { id: 'a', title: 'First' });
+
+    // Compact, then put the old journal back as if the truncate never happened
+    const journal = fs.readFileSync(journalPath());
+    store.compact(state);
+    fs.writeFileSync(journalPath(), journal);
+
+    const reopened = open();
+    assert.deepEqual(ids(reopened.state), ['a']);
+    assert.equal(reopened.state.canvases.get('a').title, 'First');
+  });
+
+  test('ignore a snapshot left half-written by an interrupted compaction', () => {
+    const { store } = open();
+    store.put('canvases', { id: 'a', title: 'First' });
+    fs.writeFileSync(path.join(dataDir, 'snapshot.json.tmp'), '{"canvases":[{"id":"x"');
+
+    assert.deepEqual(ids(open().state), ['a']);
+    assert.equal(fs.existsSync(path.join(dataDir, 'snapshot.json.tmp')), false);
+  });
+
+  test('reload from the snapshot and the journal written after compaction', () => {
+    const { store, state } = open();
+    store.put('canvases', { id: 'a', title: 'First' });
+    state.canvases.set('a', { id: 'a', title: 'First' });
+    store.compact(state);
+    assert.equal(fs.statSync(journalPath()).size, 0);
+
+    store.put('canvases', { id: 'b', title: 'Second' });
+    store.remove('canvases', 'a');
+
+    assert.deepEqual(ids(open().state), ['b']);
+  });
+});
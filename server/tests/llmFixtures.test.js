@@ -0,0 +1,117 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import createMockProvider from '../services/llm/mockProvider.js';
+import withFixtures from '../services/llm/fixtureProvider.js';
+import { createCanvas, signUp, startServer } from './testServer.js';
+
+// Fixtures for the exploration below, recorded over the offline provider. After changing a
+// prompt, re-record them with LLM_FIXTURE_MODE=record node --test server/tests/llmFixtures.test.js
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'llm');
+const recording = process.env.LLM_FIXTURE_MODE === 'record';
+
+describe('replayed LLM fixtures', () => {
+  let server;
+  let client;
+  let canvasId;
+
+  before(async () => {
+    process.env.LLM_FIXTURE_MODE = recording ? 'record' : 'replay';
+    process.env.LLM_FIXTURE_DIR = FIXTURE_DIR;
+
+    server = await startServer();
+    client = await signUp(server.baseUrl, 'fixture-explorer');
+    canvasId = await createCanvas(client);
+  });
+
+  after(() => server.close());
+
+  // Every call skips the response cache, so each one is answered from a fixture
+  const ask = async (route, body) => {
+    const { status, body: response } = await client.request('POST', `/api/claude/${route}`, { canvasId, bypassCache: true, ...body });
+    assert.equal(status, 200, route);
+    assert.equal(response.degraded, undefined, route);
+    return response;
+  };
+
+  test('answer a query, a follow-up, a topic and a synthesis', async () => {
+    const query = 'Why do we sleep?';
+    const first = await ask('query', { query });
+    assert.ok(first.answer);
+    assert.ok(first.followUpQuestions.length > 0);
+
+    const context = [{ role: 'user', content: query }, { role: 'assistant', content: first.answer }];
+    const { data: followUp } = await ask('follow-up', { query: first.followUpQuestions[0], context });
+    assert.equal(followUp.degraded, undefined);
+    assert.ok(followUp.answer);
+
+    const topic = await ask('topic', { topic: 'Memory consolidation', context });
+    assert.ok(topic.explanation);
+
+    const synthesis = await ask('synthesize', {
+      contexts: [
+        { role: 'assistant', content: first.answer },
+        { role: 'assistant', content: followUp.answer }
+      ]
+    });
+    assert.ok(synthesis.title);
+    assert.ok(synthesis.content);
+  });
+
+  test('answer only from recorded fixtures', { skip: recording }, async () => {
+    const { body } = await client.request('POST', '/api/claude/query', { canvasId, bypassCache: true, query: 'Why do we yawn?' });
+    assert.equal(body.degraded, true);
+  });
+});
+
+describe('withFixtures', () => {
+  let dir;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  const request = (signal) => ({
+    system: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Why do we sleep?' }],
+    maxTokens: 500,
+    signal
+  });
+
+  test('replay a recorded stream chunk by chunk', async () => {
+    const recorded = [];
+    const replayed = [];
+
+    const recorder = withFixtures(createMockProvider(), { mode: 'record', dir });
+    const live = await recorder.stream(request(), chunk => recorded.push(chunk));
+
+    const player = withFixtures(createMockProvider(), { mode: 'replay', dir });
+    const replay = await player.stream(request(), chunk => replayed.push(chunk));
+
+    assert.ok(recorded.length > 1);
+    assert.deepEqual(replayed, recorded);
+    assert.equal(replay.text, live.text);
+  });
+
+  test('stop replaying a stream once its request is cancelled', async () => {
+    const controller = new AbortController();
+    const replayed = [];
+
+    await withFixtures(createMockProvider(), { mode: 'record', dir }).stream(request(), () => {});
+    const player = withFixtures(createMockProvider(), { mode: 'replay', dir });
+
+    await assert.rejects(
+      player.stream(request(controller.signal), (chunk) => {
+        replayed.push(chunk);
+        controller.abort();
+      }),
+      { name: 'AbortError' }
+    );
+    assert.equal(replayed.length, 1);
+  });
+});
@@ -0,0 +1,50 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymous, createCanvas, signUp, startServer } from './testServer.js';
+
+describe('node routes', () => {
+  let server;
+  let owner;
+  let other;
+  let canvasId;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signUp(server.baseUrl, 'node-owner');
+    other = await signUp(server.baseUrl, 'node-other');
+    canvasId = await createCanvas(owner);
+  });
+
+  after(() => server.close());
+
+  const routes = (id) => [
+    ['PUT', `/api/node/canvas/${id}/node/response-1/content`, { content: 'Edited' }],
+    ['POST', `/api/node/canvas/${id}/node/response-1/attachment`],
+    ['PATCH', `/api/node/canvas/${id}/node/response-1/attachment/0`, { includeInContext: false }],
+    ['DELETE', `/api/node/canvas/${id}/node/response-1/attachment/0`],
+    ['POST', `/api/node/canvas/${id}/node/response-1/source`, { text: 'A source' }],
+    ['DELETE', `/api/node/canvas/${id}/node/response-1/source/0`]
+  ];
+
+  test('require a session', async () => {
+    const client = anonymous(server.baseUrl);
+    for (const [method, path, body] of routes(canvasId)) {
+      const { status } = await client.request(method, path, body);
+      assert.equal(status, 401, `${method} ${path}`);
+    }
+  });
+
+  test('refuse nodes of another user\'s canvas', async () => {
+    for (const [method, path, body] of routes(canvasId)) {
+      const { status } = await other.request(method, path, body);
+      assert.equal(status, 403, `${method} ${path}`);
+    }
+  });
+
+  test('report an unknown canvas as not found', async () => {
+    for (const [method, path, body] of routes('canvas_unknown')) {
+      const { status } = await owner.request(method, path, body);
+      assert.equal(status, 404, `${method} ${path}`);
+    }
+  });
+});
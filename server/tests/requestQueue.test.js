@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequestQueue, QueueFullError } from '../services/requestQueue.js';
+
+// A limit of one default-sized call admits calls one at a time; the short window keeps
+// the queue's retry timer from holding the test run open
+const createQueue = (options) => createRequestQueue({ tokenLimit: 1000, windowMs: 50, ...options });
+
+describe('createRequestQueue', () => {
+  test('admit waiting calls taking users in turn', async () => {
+    const queue = createQueue();
+    const admitted = [];
+    const positions = {};
+
+    const running = await queue.acquire('alice');
+    const waiting = [['alice', 2], ['alice', 3], ['bob', 1], ['bob', 2]].map(([userId, call]) => {
+      const name = `${userId}-${call}`;
+      return queue
+        .acquire(userId, { onQueued: ({ position }) => { positions[name] = position; } })
+        .then(turn => {
+          admitted.push(name);
+          return turn;
+        });
+    });
+
+    assert.deepEqual(positions, { 'alice-2': 1, 'alice-3': 3, 'bob-1': 2, 'bob-2': 4 });
+
+    running.release();
+    for (const turn of [waiting[0], waiting[2], waiting[1], waiting[3]]) {
+      (await turn).release();
+    }
+
+    assert.deepEqual(admitted, ['alice-2', 'bob-1', 'alice-3', 'bob-2']);
+  });
+
+  test('take a cancelled call out of the queue', async () => {
+    const queue = createQueue();
+    const controller = new AbortController();
+    const statuses = [];
+
+    const running = await queue.acquire('alice');
+    const cancelled = queue.acquire('alice', { signal: controller.signal });
+    const next = queue.acquire('bob', { onQueued: status => statuses.push(status.position) });
+
+    controller.abort();
+    await assert.rejects(cancelled, { name: 'AbortError', message: 'Request cancelled while queued' });
+
+    running.release();
+    (await next).release();
+
+    // Bob moves up once the cancelled call has left, and hears when his call starts
+    assert.deepEqual(statuses, [2, 1, 0]);
+    await assert.rejects(queue.acquire('alice', { signal: controller.signal }), { name: 'AbortError' });
+  });
+
+  test('refuse calls from a user whose line is full', async () => {
+    const queue = createQueue({ maxQueuedPerUser: 2 });
+
+    const running = await queue.acquire('alice');
+    const waiting = [queue.acquire('alice'), queue.acquire('alice')];
+
+    assert.equal(queue.getRetryAfter('bob'), null);
+    assert.equal(queue.getRetryAfter('alice'), 1);
+    await assert.rejects(queue.acquire('alice'), (error) => {
+      assert.ok(error instanceof QueueFullError);
+      assert.equal(error.code, 'QUEUE_FULL');
+      assert.equal(error.retryAfterSeconds, 1);
+      return true;
+    });
+
+    // Other users still get in line
+    const other = queue.acquire('bob');
+
+    running.release();
+    for (const turn of [waiting[0], other, waiting[1]]) {
+      (await turn).release();
+    }
+    assert.equal(queue.getRetryAfter('alice'), null);
+  });
+
+  test('hold calls once the window is spent until it resets', async () => {
+    const queue = createQueue();
+
+    const first = await queue.acquire('alice');
+    first.charge(1000);
+    first.release();
+
+    const started = Date.now();
+    const second = await queue.acquire('bob');
+    second.release();
+
+    assert.ok(Date.now() - started >= 40, 'the call waited for the window to reset');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ANSWER_SCHEMA, TOPICS_SCHEMA, validateAgainstSchema } from '../services/llm/schemas.js';
+import { requestStructured, StructuredOutputError } from '../services/llm/structuredOutput.js';
+
+const validAnswer = { answer: 'Sleep restores the brain.', followUpQuestions: ['Why do we dream?'] };
+
+describe('validateAgainstSchema', () => {
+  test('accept data matching the schema', () => {
+    assert.deepEqual(validateAgainstSchema(validAnswer, ANSWER_SCHEMA.inputSchema), []);
+  });
+
+  test('report missing fields, wrong types, empty strings and item counts', () => {
+    assert.deepEqual(validateAgainstSchema({ followUpQuestions: [] }, ANSWER_SCHEMA.inputSchema), [
+      'response.answer is required',
+      'response.followUpQuestions must contain at least 1 item(s)'
+    ]);
+    assert.deepEqual(validateAgainstSchema({ answer: ' ', followUpQuestions: [3] }, ANSWER_SCHEMA.inputSchema), [
+      'response.answer must not be empty',
+      'response.followUpQuestions[0] must be of type string, got number'
+    ]);
+    assert.deepEqual(validateAgainstSchema({ topics: Array(13).fill('Sleep') }, TOPICS_SCHEMA.inputSchema), [
+      'response.topics must contain at most 12 items'
+    ]);
+    assert.deepEqual(validateAgainstSchema([], ANSWER_SCHEMA.inputSchema), ['response must be of type object, got array']);
+  });
+});
+
+describe('requestStructured', () => {
+  // A provider call that gives the replies in order and keeps the messages it was sent
+  const scripted = (...replies) => {
+    const calls = [];
+    const call = async (messages) => {
+      calls.push(messages);
+      return replies[calls.length - 1];
+    };
+    return { call, calls };
+  };
+
+  const messages = [{ role: 'user', content: 'Why do we sleep?' }];
+
+  test('return valid data from the first reply', async () => {
+    const { call, calls } = scripted({ text: '', data: validAnswer });
+    assert.deepEqual(await requestStructured(call, messages, ANSWER_SCHEMA), validAnswer);
+    assert.equal(calls.length, 1);
+  });
+
+  test('read JSON text from providers without tool support', async () => {
+    const { call } = scripted({ text: JSON.stringify(validAnswer) });
+    assert.deepEqual(await requestStructured(call, messages, ANSWER_SCHEMA), validAnswer);
+  });
+
+  test('show the model its invalid reply and the problems, then accept the repair', async () => {
+    const { call, calls } = scripted({ text: 'Not JSON' }, { text: '', data: validAnswer });
+
+    assert.deepEqual(await requestStructured(call, messages, ANSWER_SCHEMA), validAnswer);
+    assert.equal(calls.length, 2);
+
+    const [original, assistant, repair] = calls[1];
+    assert.deepEqual(original, messages[0]);
+    assert.deepEqual(assistant, { role: 'assistant', content: 'Not JSON' });
+    assert.match(repair.content, /- response was not valid JSON/);
+    assert.match(repair.content, /record_answer tool again/);
+  });
+
+  test('give up after the last repair attempt', async () => {
+    const invalid = { text: '{}', data: {} };
+    const { call, calls } = scripted(invalid, invalid, invalid, { text: '', data: validAnswer });
+
+    await assert.rejects(requestStructured(call, messages, ANSWER_SCHEMA), (error) => {
+      assert.ok(error instanceof StructuredOutputError);
+      assert.deepEqual(error.validationErrors, ['response.answer is required', 'response.followUpQuestions is required']);
+      return true;
+    });
+    assert.equal(calls.length, 3);
+  });
+});
@@ -0,0 +1,47 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymous, createCanvas, signUp, startServer } from './testServer.js';
+
+describe('summary routes', () => {
+  let server;
+  let owner;
+  let other;
+  let canvasId;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signUp(server.baseUrl, 'summary-owner');
+    other = await signUp(server.baseUrl, 'summary-other');
+    canvasId = await createCanvas(owner);
+  });
+
+  after(() => server.close());
+
+  const routes = (id) => [
+    ['POST', `/api/summary/canvas/${id}/summary`, { style: 'brief' }],
+    ['GET', `/api/summary/canvas/${id}/summary`],
+    ['DELETE', `/api/summary/canvas/${id}/summary/0`]
+  ];
+
+  test('require a session', async () => {
+    const client = anonymous(server.baseUrl);
+    for (const [method, path, body] of routes(canvasId)) {
+      const { status } = await client.request(method, path, body);
+      assert.equal(status, 401, `${method} ${path}`);
+    }
+  });
+
+  test('refuse summaries of another user\'s canvas', async () => {
+    for (const [method, path, body] of routes(canvasId)) {
+      const { status } = await other.request(method, path, body);
+      assert.equal(status, 403, `${method} ${path}`);
+    }
+  });
+
+  test('report an unknown canvas as not found', async () => {
+    for (const [method, path, body] of routes('canvas_unknown')) {
+      const { status } = await owner.request(method, path, body);
+      assert.equal(status, 404, `${method} ${path}`);
+    }
+  });
+});
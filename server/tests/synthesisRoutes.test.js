@@ -0,0 +1,77 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { anonymous, createCanvas, signUp, startServer } from './testServer.js';
+
+describe('synthesis routes', () => {
+  let server;
+  let owner;
+  let other;
+  let canvasId;
+  let artifactId;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signUp(server.baseUrl, 'synthesis-owner');
+    other = await signUp(server.baseUrl, 'synthesis-other');
+    canvasId = await createCanvas(owner);
+
+    const { body } = await owner.request('POST', '/api/synthesis', {
+      title: 'Synthesis',
+      content: 'What the answers have in common',
+      mindmapId: canvasId,
+      selectedNodes: ['response-1']
+    });
+    artifactId = body.data.id;
+  });
+
+  after(() => server.close());
+
+  const canvasRoutes = (id) => [
+    ['POST', '/api/synthesis', { title: 'T', content: 'C', mindmapId: id, selectedNodes: ['response-1'] }],
+    ['GET', `/api/synthesis/mindmap/${id}`]
+  ];
+
+  const artifactRoutes = (id) => [
+    ['PUT', `/api/synthesis/${id}`, { title: 'Renamed' }],
+    ['POST', `/api/synthesis/${id}/revisions`, { content: 'Re-run' }],
+    ['DELETE', `/api/synthesis/${id}`]
+  ];
+
+  test('require a session', async () => {
+    const client = anonymous(server.baseUrl);
+    for (const [method, path, body] of [...canvasRoutes(canvasId), ...artifactRoutes(artifactId)]) {
+      const { status } = await client.request(method, path, body);
+      assert.equal(status, 401, `${method} ${path}`);
+    }
+  });
+
+  test('refuse another user\'s canvas or artifact', async () => {
+    for (const [method, path, body] of [...canvasRoutes(canvasId), ...artifactRoutes(artifactId)]) {
+      const { status } = await other.request(method, path, body);
+      assert.equal(status, 403, `${method} ${path}`);
+    }
+  });
+
+  test('report an unknown canvas or artifact as not found', async () => {
+    for (const [method, path, body] of [...canvasRoutes('canvas_unknown'), ...artifactRoutes('artifact_unknown')]) {
+      const { status } = await owner.request(method, path, body);
+      assert.equal(status, 404, `${method} ${path}`);
+    }
+  });
+
+  test('keep edited content as a revision', async () => {
+    const { body } = await owner.request('PUT', `/api/synthesis/${artifactId}`, { content: 'Edited by hand' });
+    assert.equal(body.data.content, 'Edited by hand');
+    assert.deepEqual(body.data.revisions.map(revision => revision.content), ['What the answers have in common']);
+    assert.ok(body.data.revisedAt);
+
+    const { body: renamed } = await owner.request('PUT', `/api/synthesis/${artifactId}`, { title: 'Renamed', content: 'Edited by hand' });
+    assert.equal(renamed.data.revisions.length, 1);
+  });
+
+  test('let the owner change and delete the artifact', async () => {
+    assert.equal((await owner.request('PUT', `/api/synthesis/${artifactId}`, { title: 'Renamed' })).status, 200);
+    assert.equal((await owner.request('DELETE', `/api/synthesis/${artifactId}`)).status, 200);
+    assert.equal((await owner.request('DELETE', `/api/synthesis/${artifactId}`)).status, 404);
+  });
+});
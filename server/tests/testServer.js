@@ -0,0 +1,69 @@
+// Shared setup for the route tests: the API on a free port, with the in-memory local
+// database and the offline LLM provider, and clients signed in as new users
+
+/**
+ * Start the API server for a test file
+ * @returns {Promise<Object>} - { baseUrl, close }, where close stops the server
+ */
+export const startServer = async () => {
+  process.env.NODE_ENV = 'test';
+  process.env.LLM_PROVIDER = 'mock';
+  process.env.LOCAL_DB_DRIVER = 'memory';
+
+  const { default: app } = await import('../../server.js');
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}`,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+// Send a JSON request, with the session cookie when there is one
+const request = async (baseUrl, method, path, body, cookie) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(cookie && { Cookie: cookie })
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  return { status: response.status, body: await response.json().catch(() => null) };
+};
+
+// A client without a session
+export const anonymous = (baseUrl) => ({
+  request: (method, path, body) => request(baseUrl, method, path, body)
+});
+
+/**
+ * Register a new user
+ * @param {string} baseUrl - The server's URL
+ * @param {string} username - A username not yet taken in this test file
+ * @returns {Promise<Object>} - { user, request }, where request(method, path, body) is sent
+ *   with the user's session cookie
+ */
+export const signUp = async (baseUrl, username) => {
+  const response = await fetch(`${baseUrl}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password: 'password123' })
+  });
+  const cookie = response.headers.get('set-cookie').split(';')[0];
+  const { data } = await response.json();
+
+  return {
+    user: data.user,
+    request: (method, path, body) => request(baseUrl, method, path, body, cookie)
+  };
+};
+
+// Create a canvas owned by the client's user, returning its ID
+export const createCanvas = async (client) => {
+  const { body } = await client.request('POST', '/api/canvas', { title: 'Sleep', initialQuery: 'Why do we sleep?' });
+  return body.data.id;
+};
@@ -0,0 +1,14 @@
+// Return an AbortSignal that fires if the client disconnects before the response has
+// been sent, so upstream work done for the request can be stopped
+export const abortOnDisconnect = (req, res) => {
+  const controller = new AbortController();
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('Client disconnected before the response was sent', { url: req.originalUrl });
+      controller.abort();
+    }
+  });
+
+  return controller.signal;
+};
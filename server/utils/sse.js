@@ -0,0 +1,78 @@
+import { abortOnDisconnect } from './abort.js';
+
+// Start a Server-Sent Events response.
+// Returns helpers to send named events, an AbortSignal that fires if the client
+// disconnects, and a way to end the stream. The headers go out with the first event,
+// so a request refused before anything is streamed can still get an ordinary error response.
+export const openEventStream = (req, res) => {
+  const start = () => {
+    if (res.headersSent) return;
+
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+  };
+
+  return {
+    // Stop upstream work when the browser goes away before the stream is finished
+    signal: abortOnDisconnect(req, res),
+
+    send(event, data) {
+      if (res.writableEnded) return;
+      start();
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+};
+
+// Read a Server-Sent Events response body (a Node stream) and call onEvent with
+// { event, data } for every complete event. `data` is the raw string payload.
+export const readEventStream = async (stream, onEvent) => {
+  // Decode on the stream so multi-byte characters split across chunks stay intact
+  stream.setEncoding('utf8');
+
+  let buffer = '';
+
+  const dispatch = (rawEvent) => {
+    let event = 'message';
+    const dataLines = [];
+
+    rawEvent.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        event = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice('data:'.length).trim());
+      }
+    });
+
+    if (dataLines.length > 0) {
+      onEvent({ event, data: dataLines.join('\n') });
+    }
+  };
+
+  for await (const chunk of stream) {
+    buffer += chunk.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
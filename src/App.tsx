@@ -1,12 +1,59 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ReactFlowProvider } from 'reactflow';
 import MindMapCanvas from './components/canvas/MindMapCanvas';
+import UsagePanel from './components/usage/UsagePanel';
+import AuthPage from './pages/AuthPage';
+import { authApi, setUnauthorizedHandler } from './services/api';
+import { User } from './types';
 import logger from './utils/logger';
 
 function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState<boolean>(true);
   const [query, setQuery] = useState<string>('');
   const [currentCanvasId, setCurrentCanvasId] = useState<string | undefined>(undefined);
   const [isCreatingNew, setIsCreatingNew] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+
+  // Restore an existing session and drop back to sign-in whenever it expires
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      logger.warn('Session expired or missing, returning to sign-in');
+      setUser(null);
+    });
+    
+    authApi.me()
+      .then(response => {
+        if (response.success && response.data) {
+          logger.info('Restored session', { userId: response.data.user.id });
+          setUser(response.data.user);
+        }
+      })
+      .catch(() => {
+        logger.info('No active session');
+      })
+      .finally(() => setIsCheckingSession(false));
+    
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const handleLogin = (loggedInUser: User) => {
+    setUser(loggedInUser);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await authApi.logout();
+      logger.info('User logged out', { userId: user?.id });
+    } catch (error) {
+      logger.error('Failed to log out', error);
+    }
+    setUser(null);
+    setQuery('');
+    setCurrentCanvasId(undefined);
+    setIsCreatingNew(false);
+    setIsUsageOpen(false);
+  };
 
   const handleCreateNewCanvas = (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,6 +68,12 @@ function App() {
     setCurrentCanvasId(undefined);
   };
 
+  const handleCanvasCreated = (canvasId: string) => {
+    logger.info('New canvas saved', { canvasId });
+    setCurrentCanvasId(canvasId);
+    setIsCreatingNew(false);
+  };
+
   const handleCanvasSelected = (canvasId: string) => {
     logger.info('Selecting existing canvas', { canvasId });
     setCurrentCanvasId(canvasId);
@@ -28,10 +81,22 @@ function App() {
     setQuery('');
   };
 
+  if (isCheckingSession) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-gray-50 text-gray-500">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage onLogin={handleLogin} />;
+  }
+
   return (
     <div className="h-screen flex flex-col bg-gray-50">
       {/* Header */}
-      <header className="bg-white shadow-sm">
+      <header className="relative bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-xl font-bold text-indigo-600">MindMap+</h1>
           
@@ -54,10 +119,26 @@ function App() {
             </div>
           </form>
           
-          <div>
-            {/* User profile or additional actions could go here */}
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-gray-600">{user.username}</span>
+            <button
+              type="button"
+              onClick={() => setIsUsageOpen(open => !open)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Usage
+            </button>
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Sign out
+            </button>
           </div>
         </div>
+        
+        {isUsageOpen && <UsagePanel onClose={() => setIsUsageOpen(false)} />}
       </header>
       
       {/* Main Content */}
@@ -66,6 +147,7 @@ function App() {
           <MindMapCanvas 
             initialQuery={isCreatingNew ? query : undefined} 
             canvasId={currentCanvasId}
+            onCanvasCreated={handleCanvasCreated}
           />
         </ReactFlowProvider>
       </main>
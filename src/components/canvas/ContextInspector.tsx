@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { FiLayers } from 'react-icons/fi';
+import { ContextPart, PromptContext } from '../../types';
+
+interface ContextInspectorProps {
+  promptContext: PromptContext;
+  compact?: boolean;
+}
+
+const describePart = (part: ContextPart) => {
+  switch (part.kind) {
+    case 'summary':
+      return `Summary of ${part.ancestorCount} earlier message${part.ancestorCount !== 1 ? 's' : ''}`;
+    case 'omitted':
+      return `${part.ancestorCount} earlier message${part.ancestorCount !== 1 ? 's' : ''} left out`;
+    default:
+      return part.role === 'assistant' ? 'Answer, verbatim' : 'Question, verbatim';
+  }
+};
+
+// Shows the ancestor context a node was generated from: the tokens it used against the
+// canvas's budget, and which conversation turns were sent verbatim or replaced by a summary
+const ContextInspector: React.FC<ContextInspectorProps> = ({ promptContext, compact = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { budget, tokens, parts } = promptContext;
+  const isCompressed = parts.some(part => part.kind !== 'verbatim');
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center text-gray-500 hover:text-indigo-600 ${compact ? 'text-xs' : 'text-base'}`}
+        aria-expanded={isOpen}
+      >
+        <FiLayers size={compact ? 12 : 16} className={compact ? 'mr-1' : 'mr-2'} />
+        Context: ~{tokens.toLocaleString()} of {budget.toLocaleString()} tokens
+        {isCompressed && ' (compressed)'}
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-2 text-xs">
+          {parts.length === 0 && <li className="text-gray-500">No ancestor context was sent.</li>}
+          {parts.map((part, index) => (
+            <li
+              key={index}
+              className={`rounded p-2 ${part.kind === 'verbatim' ? 'bg-gray-50' : 'bg-indigo-50'}`}
+            >
+              <div className="flex justify-between font-medium text-gray-700">
+                <span>{describePart(part)}</span>
+                {part.kind !== 'omitted' && <span className="text-gray-500">~{part.tokens} tokens</span>}
+              </div>
+              {(part.text || part.excerpt) && (
+                <p className="mt-1 text-gray-600 whitespace-pre-wrap break-words">{part.text || part.excerpt}</p>
+              )}
+              {part.attachments && (
+                <p className="mt-1 text-gray-500">Attachments: {part.attachments.join(', ')}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ContextInspector;
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { FiArrowRight, FiChevronDown, FiChevronUp, FiSend, FiMessageSquare } from 'react-icons/fi';
 import { NodeProps, Handle, Position } from 'reactflow';
 import logger from '../../utils/logger';
+import { TopicSpan } from '../../types';
+import { getTopicSpans, splitByTopics } from '../../utils/topics';
 
 // Define our custom data properties
 export interface FollowUpNodeData {
@@ -10,6 +12,8 @@ export interface FollowUpNodeData {
   isCustom?: boolean;
   isInput?: boolean; // New property to identify if this is an input node
   answer?: string;
+  // The key concepts of the answer, found by the server
+  topicSpans?: TopicSpan[];
   hasBeenAnswered?: boolean;
   childQuestions?: string[];
   onFollowUp?: (id: string, question: string) => void;
@@ -44,6 +48,7 @@ const FollowUpNode = ({ data, isConnectable }: NodeProps<FollowUpNodeData>) => {
     isCustom = false,
     isInput = false, // Default to false for backward compatibility
     answer, 
+    topicSpans,
     hasBeenAnswered = false,
     onFollowUp, 
     onGenerateChildNodes,
@@ -334,21 +339,6 @@ const FollowUpNode = ({ data, isConnectable }: NodeProps<FollowUpNodeData>) => {
     }
   };
   
-  // Extract potential topics from content (reuse from ResponseNode)
-  const extractTopics = (text: string): string[] => {
-    // For a basic implementation, we'll identify capitalized terms that are likely to be topics
-    // More sophisticated NLP could be integrated for better topic identification
-    const potentialTopics = text.match(/\b[A-Z][a-z]{2,}\b/g) || [];
-    
-    // Filter out common words and duplicates
-    const commonWords = ['The', 'This', 'That', 'These', 'Those', 'They', 'Their', 'When', 'Where', 'What', 'Why', 'How'];
-    const uniqueTopics = [...new Set(potentialTopics)].filter(
-      topic => !commonWords.includes(topic)
-    );
-    
-    return uniqueTopics;
-  };
-  
   // Handle topic click
   const handleTopicClick = (topic: string) => {
     if (onTopicClick) {
@@ -360,36 +350,28 @@ const FollowUpNode = ({ data, isConnectable }: NodeProps<FollowUpNodeData>) => {
   const renderContentWithTopics = (text: string) => {
     if (!text) return <div></div>;
     
-    const topics = extractTopics(text);
+    // The topics found in the answer, or its capitalized words until they have been found
+    const topics = getTopicSpans(text, topicSpans);
     
     if (topics.length === 0) {
       return <div>{text}</div>;
     }
 
-    // Create a regex pattern to match all topics (case insensitive)
-    const topicPattern = new RegExp(`\\b(${topics.join('|')})\\b`, 'gi');
-    
-    // Split the content based on topic matches
-    const parts = text.split(topicPattern);
-    
-    // Create React elements with spans for topics
-    return parts.map((part, index) => {
-      // Check if this part is a topic (case insensitive match)
-      const isTopic = topics.some(topic => topic.toLowerCase() === part.toLowerCase());
-      
-      if (isTopic && onTopicClick) {
+    return splitByTopics(text, topics).map((segment, index) => {
+      if (segment.topic && onTopicClick) {
+        const topic = segment.topic;
         return (
           <span 
             key={index}
             className="topic-term"
-            onClick={() => handleTopicClick(part)}
+            onClick={() => handleTopicClick(topic)}
           >
-            {part}
+            {segment.text}
           </span>
         );
       }
       
-      return part;
+      return segment.text;
     });
   };
   
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { FiX } from 'react-icons/fi';
+import { AnswerLength, GenerationSettings } from '../../types';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  isSaving?: boolean;
+  error?: string | null;
+  onSave: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+const ANSWER_LENGTH_OPTIONS: { value: AnswerLength; label: string }[] = [
+  { value: 'brief', label: 'Brief (1 paragraph)' },
+  { value: 'standard', label: 'Standard (2-3 paragraphs)' },
+  { value: 'detailed', label: 'Detailed (4-5 paragraphs)' }
+];
+
+// Number inputs are edited as text so they can be cleared back to the server default
+const toInputValue = (value?: number) => (value === undefined ? '' : String(value));
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Panel for the canvas's generation settings; blank fields use the server defaults
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({
+  settings,
+  isSaving = false,
+  error,
+  onSave,
+  onClose
+}) => {
+  const [model, setModel] = useState(settings.model || '');
+  const [temperature, setTemperature] = useState(toInputValue(settings.temperature));
+  const [maxTokens, setMaxTokens] = useState(toInputValue(settings.maxTokens));
+  const [answerLength, setAnswerLength] = useState<AnswerLength>(settings.answerLength || 'standard');
+  const [followUpCount, setFollowUpCount] = useState(settings.followUpCount || 3);
+  const [contextBudget, setContextBudget] = useState(toInputValue(settings.contextBudget));
+  const [grounded, setGrounded] = useState(settings.grounded || false);
+
+  // Start from the saved settings whenever they change (e.g. another canvas was opened)
+  useEffect(() => {
+    setModel(settings.model || '');
+    setTemperature(toInputValue(settings.temperature));
+    setMaxTokens(toInputValue(settings.maxTokens));
+    setAnswerLength(settings.answerLength || 'standard');
+    setFollowUpCount(settings.followUpCount || 3);
+    setContextBudget(toInputValue(settings.contextBudget));
+    setGrounded(settings.grounded || false);
+  }, [settings]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave({
+      model: model.trim() || undefined,
+      temperature: toNumber(temperature),
+      maxTokens: toNumber(maxTokens),
+      answerLength,
+      followUpCount,
+      contextBudget: toNumber(contextBudget),
+      grounded
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="absolute top-4 right-4 w-80 bg-white p-4 rounded-lg shadow-lg border border-indigo-200 z-10"
+    >
+      <div className="flex justify-between items-center mb-4">
+        <span className="font-medium text-gray-800">Generation settings</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Close settings"
+        >
+          <FiX size={18} />
+        </button>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Model</span>
+          <input
+            type="text"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            placeholder="Server default"
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+
+        <div className="flex gap-3">
+          <label className="block flex-1">
+            <span className="block font-medium text-gray-700 mb-1">Temperature</span>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              placeholder="Default"
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+          <label className="block flex-1">
+            <span className="block font-medium text-gray-700 mb-1">Max tokens</span>
+            <input
+              type="number"
+              min={100}
+              max={4000}
+              step={100}
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              placeholder="1000"
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+        </div>
+
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Answer length</span>
+          <select
+            value={answerLength}
+            onChange={(e) => setAnswerLength(e.target.value as AnswerLength)}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {ANSWER_LENGTH_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Follow-up questions</span>
+          <select
+            value={followUpCount}
+            onChange={(e) => setFollowUpCount(Number(e.target.value))}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {[1, 2, 3, 4, 5].map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Context budget (tokens)</span>
+          <input
+            type="number"
+            min={500}
+            max={100000}
+            step={500}
+            value={contextBudget}
+            onChange={(e) => setContextBudget(e.target.value)}
+            placeholder="Server default"
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <span className="block text-xs text-gray-500 mt-1">
+            Older parts of a branch are summarized once its context would exceed this.
+          </span>
+        </label>
+
+        <label className="flex items-start">
+          <input
+            type="checkbox"
+            checked={grounded}
+            onChange={(e) => setGrounded(e.target.checked)}
+            className="mt-1 mr-2"
+          />
+          <span>
+            <span className="block font-medium text-gray-700">Grounded answers</span>
+            <span className="block text-xs text-gray-500">
+              Answer follow-ups from the sources and attachments of the node and its ancestors, with citations.
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 mt-3">{error}</div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-3">
+        Settings apply to new answers and explanations on this canvas.
+      </p>
+
+      <div className="flex justify-end mt-4">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -18,16 +18,19 @@ import ReactFlow, {
 } from 'reactflow';
 import type { Edge as FlowEdge } from 'reactflow';
 import 'reactflow/dist/style.css';
+import { FiSettings } from 'react-icons/fi';
 import logger from '../../utils/logger';
+import { hasTopicSpans, MAX_TOPIC_TEXT_LENGTH } from '../../utils/topics';
 import ResponseNode from './ResponseNode';
 import FollowUpNode, { FollowUpNodeData } from './FollowUpNode';
 import LeftSidebar from './LeftSidebar';
 import RightSidebar from './RightSidebar';
-import { NodeType, SynthesisArtifact } from '../../types';
-import { claudeApi } from '../../services/api';
+import GenerationSettingsPanel from './GenerationSettingsPanel';
+import { Attachment, CachedInfo, Citation, ClaudeRequestOptions, ClaudeResponse, ConversationTurn, DegradedInfo, GenerationSettings, GroundingDocument, MindMapEdge, MindMapNode, NodeType, PromptContext, PromptTemplateRef, QueueStatus, Source, SynthesisArtifact, TopicSpan } from '../../types';
+import { canvasApi, claudeApi, claudeStreamApi, StreamHandlers, synthesisApi } from '../../services/api';
 import './mindmap.css'; // We'll create this file next
 import TopicNode from './TopicNode';
-import { nodeTypes, edgeTypes } from './nodeTypes';
+import { nodeTypes, edgeTypes, isProvenanceEdge, ARTIFACT_DRAG_TYPE } from './nodeTypes';
 
 // Constants for dimensions and spacing
 const NODE_WIDTH = 300; // Default width of nodes
@@ -36,6 +39,10 @@ const PADDING = 50; // Padding to avoid overlaps
 const GRID_HORIZONTAL_SPACING = 250; // Spacing between nodes on X axis
 const GRID_VERTICAL_SPACING = 200; // Spacing between nodes on Y axis
 const MAX_SIBLINGS_PER_LEVEL = 3; // Maximum number of nodes per vertical level before wrapping
+const AUTOSAVE_DELAY = 1000; // Debounce window before canvas changes are saved
+
+// Node data keys that only describe transient UI state and are never persisted
+const TRANSIENT_DATA_KEYS = ['isSelected', 'canvasId', 'isStreaming', 'queueStatus', 'isStale'];
 
 // Using a proper React ref to store the function reference safely
 const topicClickRefHolder = { current: null as any };
@@ -117,8 +124,8 @@ const calculateNodePositions = (
 // Calculate the depth of a node in the tree
 const calculateNodeDepth = (nodeId: string, nodes: Node[], edges: Edge[]): number => {
   try {
-    // Find all edges where this node is the target
-    const parentEdge = edges.find(edge => edge.target === nodeId);
+    // Find the edge from this node's parent
+    const parentEdge = edges.find(edge => edge.target === nodeId && !isProvenanceEdge(edge));
     
     // If no parent edge, this is a root node (depth 0)
     if (!parentEdge) {
@@ -208,6 +215,160 @@ const avoidOverlap = (
   return testPosition;
 };
 
+// Get the text a node represents, stored as the node's top-level content.
+// Placeholder (degraded) text stays in the node data, flagged, but is never stored as content.
+const getNodeContent = (node: Node): string => {
+  if (node.data?.degraded) {
+    return '';
+  }
+  
+  switch (node.type) {
+    case 'response':
+      return node.data?.content || '';
+    case 'followUp':
+      return node.data?.answer || node.data?.question || '';
+    case 'topic':
+      return node.data?.explanation || '';
+    case 'synthesis':
+      return node.data?.content || '';
+    default:
+      return '';
+  }
+};
+
+// The conversation turns a node stands for: a follow-up or topic is the user asking, and a
+// response, explanation or synthesis is the assistant answering. withQuery adds the query a response
+// answers, for responses whose question isn't a node of its own. Placeholder (degraded) text
+// would only mislead the model, so it is left out.
+const getNodeTurns = (node: Node, withQuery: boolean): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  const ask = (content?: string) => {
+    if (content) turns.push({ role: 'user', content });
+  };
+  const answer = (content?: string) => {
+    if (content) turns.push({ role: 'assistant', content });
+  };
+
+  if (!node.data || node.data.degraded) {
+    return turns;
+  }
+
+  switch (node.type) {
+    case 'response':
+      if (withQuery) ask(node.data.query);
+      answer(node.data.content);
+      break;
+    case 'followUp':
+      ask(node.data.question || node.data.content);
+      if (node.data.hasBeenAnswered) answer(node.data.answer);
+      break;
+    case 'topic':
+      ask(node.data.topic && `Explain "${node.data.topic}"`);
+      answer(node.data.explanation);
+      break;
+    case 'synthesis':
+      answer(node.data.content && `${node.data.title}\n\n${node.data.content}`);
+      break;
+  }
+  return turns;
+};
+
+// The files attached to a node that are used as context, shared by the user after the node
+const getAttachmentTurns = (node: Node): ConversationTurn[] => {
+  const attachments = ((node.data?.attachments || []) as Attachment[])
+    .filter(attachment => attachment.includeInContext !== false)
+    .map(({ fileName, fileType, filePath }) => ({ fileName, fileType, filePath }));
+  return attachments.length > 0 ? [{ role: 'user', content: '', attachments }] : [];
+};
+
+// The sources and document attachments of a node, which a grounded answer may cite. Images
+// can't be quoted, and attachments turned off as context are left out.
+const getGroundingDocuments = (node: Node): GroundingDocument[] => [
+  ...((node.data?.sources || []) as Source[]).map((source, index): GroundingDocument => ({
+    kind: 'source', nodeId: node.id, index, text: source.text, url: source.url
+  })),
+  ...((node.data?.attachments || []) as Attachment[]).flatMap((attachment, index): GroundingDocument[] => (
+    attachment.includeInContext === false || attachment.fileType.startsWith('image/')
+      ? []
+      : [{ kind: 'attachment', nodeId: node.id, index, fileName: attachment.fileName, fileType: attachment.fileType, filePath: attachment.filePath }]
+  ))
+];
+
+// Whether any source of a synthesis node was edited after the synthesis was made
+const isSynthesisStale = (node: Node, nodes: Node[]): boolean => {
+  const synthesizedAt = new Date(node.data.synthesizedAt).getTime();
+  return nodes.some(source => 
+    node.data.sourceNodeIds.includes(source.id) && 
+    !!source.data?.lastEditedAt && 
+    new Date(source.data.lastEditedAt).getTime() > synthesizedAt
+  );
+};
+
+// Convert a React Flow node into the shape stored with the canvas, dropping callbacks
+const serializeNode = (node: Node): MindMapNode => {
+  const data: MindMapNode['data'] = Object.fromEntries(
+    Object.entries(node.data || {}).filter(([key, value]) => 
+      typeof value !== 'function' && !TRANSIENT_DATA_KEYS.includes(key)
+    )
+  );
+  
+  return {
+    id: node.id,
+    type: node.type as NodeType,
+    content: getNodeContent(node),
+    position: { x: node.position.x, y: node.position.y },
+    isEdited: data.isEdited,
+    originalContent: data.originalContent,
+    lastEditedAt: data.lastEditedAt,
+    attachments: data.attachments,
+    sources: data.sources,
+    data
+  };
+};
+
+const serializeEdge = (edge: Edge): MindMapEdge => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  type: edge.type,
+  animated: edge.animated,
+  style: edge.style,
+  markerEnd: edge.markerEnd
+});
+
+const serializeGraph = (nodes: Node[], edges: Edge[]) => ({
+  nodes: nodes.map(serializeNode),
+  edges: edges.map(serializeEdge)
+});
+
+// Rebuild a React Flow node from its persisted form (callbacks are attached by the canvas)
+const deserializeNode = (node: MindMapNode): Node => {
+  const data = { ...(node.data || {}), id: node.id };
+  
+  // Content edits, attachments and sources made through the node API live at the top level
+  if (node.type === NodeType.RESPONSE && node.content) {
+    data.content = node.content;
+  }
+  if (node.isEdited !== undefined) {
+    data.isEdited = node.isEdited;
+    data.originalContent = node.originalContent;
+    data.lastEditedAt = node.lastEditedAt;
+  }
+  if (node.attachments) {
+    data.attachments = node.attachments;
+  }
+  if (node.sources) {
+    data.sources = node.sources;
+  }
+  
+  return {
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    data
+  };
+};
+
 type CustomEdge = FlowEdge & {
   animated: boolean;
   style: React.CSSProperties;
@@ -223,6 +384,7 @@ interface TopicNodeData {
   topic: string;
   explanation: string;
   onTopicClick: (topic: string, nodeId: string) => void;
+  onRegenerate: (nodeId: string) => void;
 }
 
 interface TopicNode extends CustomNode {
@@ -242,12 +404,13 @@ interface FollowUpNode extends CustomNode {
 }
 
 interface MindMapCanvasProps {
-  initialQuery: string;
+  initialQuery?: string;
   canvasId?: string;
   onError?: (message: string) => void;
+  onCanvasCreated?: (canvasId: string) => void;
 }
 
-const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, onError }) => {
+const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, onError, onCanvasCreated }) => {
   // React Flow initialization
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
@@ -255,11 +418,28 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
   const [selectedNodes, setSelectedNodes] = useState<string[]>([]);
   const [isSynthesizeMode, setIsSynthesizeMode] = useState(false);
   const [isProcessingSynthesis, setIsProcessingSynthesis] = useState(false);
+  // Lets the synthesis panel's Cancel button abort a synthesis in progress
+  const synthesisAbortRef = useRef<AbortController | null>(null);
   const [customSynthesisPrompt, setCustomSynthesisPrompt] = useState('');
   const [synthesisFeedback, setSynthesisFeedback] = useState('');
   const [artifacts, setArtifacts] = useState<SynthesisArtifact[]>([]);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({});
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
   
+  // ID of the canvas currently shown and saved on the server (unset until created or loaded)
+  const [activeCanvasId, setActiveCanvasId] = useState<string | undefined>(undefined);
+  // Serialized graph last written to the server, used to skip redundant autosaves
+  const lastSavedSnapshotRef = useRef<string | null>(null);
+  // Query currently being initialized, so a re-run effect doesn't create the canvas twice
+  const initializingQueryRef = useRef<string | null>(null);
+  // Current generation settings, read by handlers that nodes captured in earlier renders
+  const generationSettingsRef = useRef<GenerationSettings>({});
+  // Same for the active canvas ID, which Claude requests send so their usage is counted towards it
+  const activeCanvasIdRef = useRef<string | undefined>(undefined);
+  
   const { project, getNodes, getEdges } = useReactFlow();
 
   // Keep track of which nodes have already generated child nodes to prevent duplicates
@@ -272,19 +452,66 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
   // Load or initialize the canvas
   useEffect(() => {
     if (initialQuery) {
+      if (initializingQueryRef.current === initialQuery) {
+        return;
+      }
+      initializingQueryRef.current = initialQuery;
+      
+      // Stop autosaving into the previously open canvas until the new one is created
+      updateActiveCanvasId(undefined);
+      updateGenerationSettings({});
+      setArtifacts([]);
+      
       // This is a new canvas, initialize with the query
       logger.info('Initializing new canvas with query', { initialQuery });
       initializeCanvas(initialQuery);
     } else if (canvasId) {
+      // The canvas was just created here, so the graph is already on screen
+      if (canvasId === activeCanvasId) {
+        return;
+      }
+      
       // Load existing canvas
       logger.info('Loading existing canvas', { canvasId });
       loadCanvas(canvasId);
-      
-      // Load artifacts for this canvas
-      loadArtifacts(canvasId);
     }
   }, [initialQuery, canvasId]);
 
+  // Autosave the graph (nodes, edges, positions and node data) after changes settle
+  useEffect(() => {
+    if (!activeCanvasId) {
+      return;
+    }
+    
+    const snapshot = serializeGraph(nodes, edges);
+    const serialized = JSON.stringify(snapshot);
+    
+    if (serialized === lastSavedSnapshotRef.current) {
+      return;
+    }
+    
+    const timer = setTimeout(async () => {
+      try {
+        const response = await canvasApi.update(activeCanvasId, snapshot);
+        
+        if (!response.success) {
+          throw new Error(response.error || 'API returned unsuccessful response');
+        }
+        
+        lastSavedSnapshotRef.current = serialized;
+        logger.debug('Autosaved canvas', { 
+          canvasId: activeCanvasId, 
+          nodeCount: snapshot.nodes.length, 
+          edgeCount: snapshot.edges.length 
+        });
+      } catch (error) {
+        logger.error('Error autosaving canvas', error, { canvasId: activeCanvasId });
+      }
+    }, AUTOSAVE_DELAY);
+    
+    return () => clearTimeout(timer);
+  }, [nodes, edges, activeCanvasId]);
+
   // Add an effect to detect and clean up duplicate edges
   useEffect(() => {
     // This effect runs after edges have been updated
@@ -425,71 +652,286 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     setHoveredNodeId(nodeId);
   }, []);
 
+  // Append streamed text to a node's content or explanation as it arrives
+  const appendNodeText = (nodeId: string, field: 'content' | 'explanation', text: string) => {
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId 
+        ? { ...node, data: { ...node.data, [field]: (node.data[field] || '') + text } } 
+        : node
+    ));
+  };
+
+  // Show a streamed node's place in the request queue, or clear it once the request starts
+  const setNodeQueueStatus = (nodeId: string, status: QueueStatus | null) => {
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId 
+        ? { ...node, data: { ...node.data, queueStatus: status || undefined } } 
+        : node
+    ));
+  };
+
+  // Stream handlers that let the user cancel a node's request, whether it is waiting in the
+  // queue or already streaming, and show its place in the queue while it waits
+  const cancellableStream = (nodeId: string): Pick<StreamHandlers, 'onQueued' | 'signal'> => {
+    const controller = new AbortController();
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId 
+        ? { ...node, data: { ...node.data, onCancel: () => controller.abort() } } 
+        : node
+    ));
+
+    return {
+      signal: controller.signal,
+      onQueued: status => setNodeQueueStatus(nodeId, status)
+    };
+  };
+
+  // Whether a streamed request failed because the user cancelled it
+  const isCancellation = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+  // Mark a streamed node as complete, replacing its text with the final version
+  const finishStreamingNode = (nodeId: string, field: 'content' | 'explanation', text?: string) => {
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId 
+        ? { 
+            ...node, 
+            data: { 
+              ...node.data, 
+              [field]: text ?? (node.data[field] || '').trim(), 
+              isStreaming: false, 
+              queueStatus: undefined, 
+              onCancel: undefined 
+            } 
+          } 
+        : node
+    ));
+  };
+
+  // Remove a streamed node and the edge leading to it
+  const removeStreamingNode = (nodeId: string) => {
+    setNodes(currentNodes => currentNodes.filter(n => n.id !== nodeId));
+    setEdges(currentEdges => currentEdges.filter(e => e.target !== nodeId));
+  };
+
+  // Remove a streamed node that never received any text
+  const discardStreamingNode = (nodeId: string, field: 'content' | 'explanation') => {
+    const node = getNodes().find(n => n.id === nodeId);
+    
+    if (node && !node.data[field]) {
+      removeStreamingNode(nodeId);
+    } else {
+      finishStreamingNode(nodeId, field);
+    }
+  };
+
+  // Record how generated nodes were produced: the prompt template versions used, whether
+  // their text is fallback content, which is shown with a badge and never treated as real,
+  // and whether it was served from the server's cache, which can be regenerated
+  const recordGeneration = (
+    nodeIds: string[], 
+    { degraded, fallbackReason, cached, cachedAt, promptTemplates }: DegradedInfo & CachedInfo & { promptTemplates?: PromptTemplateRef[] }
+  ) => {
+    setNodes(currentNodes => currentNodes.map(node => 
+      nodeIds.includes(node.id) 
+        ? { 
+            ...node, 
+            data: { 
+              ...node.data, 
+              ...(promptTemplates && { promptTemplates }),
+              ...(degraded && { degraded: true, fallbackReason }),
+              cached: cached || undefined,
+              cachedAt: cached ? cachedAt : undefined
+            } 
+          } 
+        : node
+    ));
+  };
+
+  // Keep the ancestor context a generated node was prompted with, so it can be inspected on the node
+  const recordPromptContext = (nodeId: string, promptContext?: PromptContext) => {
+    if (!promptContext) {
+      return;
+    }
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId ? { ...node, data: { ...node.data, promptContext } } : node
+    ));
+  };
+
+  const updateGenerationSettings = (settings: GenerationSettings) => {
+    generationSettingsRef.current = settings;
+    setGenerationSettings(settings);
+  };
+
+  const updateActiveCanvasId = (id: string | undefined) => {
+    activeCanvasIdRef.current = id;
+    setActiveCanvasId(id);
+  };
+
+  // Keep the documents a grounded answer cites, so its citation markers can be followed;
+  // answers that aren't grounded have none
+  const recordCitations = (nodeId: string, citations?: Citation[]) => {
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.id === nodeId ? { ...node, data: { ...node.data, citations: citations?.length ? citations : undefined } } : node
+    ));
+  };
+
+  // Find the key concepts of an answer and keep their spans on its node, where they are
+  // highlighted as topics. Until then, and when the model can't be used, the node highlights
+  // its capitalized words instead. Spans are only kept while the answer is unchanged, so text
+  // that is the same as the node's previous text keeps its spans without another call; an
+  // answer served from the cache has its topics served from the cache too.
+  const extractNodeTopics = async (nodeId: string, text: string, previous?: { content?: string, topicSpans?: TopicSpan[] }) => {
+    if (!text.trim() || text.length > MAX_TOPIC_TEXT_LENGTH) {
+      return;
+    }
+    
+    if (previous?.content === text && hasTopicSpans(text, previous.topicSpans)) {
+      return;
+    }
+    
+    try {
+      const response = await claudeApi.extractTopics(text, claudeRequestOptions());
+      if (response.degraded) {
+        logger.warn('Topic extraction unavailable, keeping capitalized words', { nodeId, fallbackReason: response.fallbackReason });
+        return;
+      }
+      
+      setNodes(currentNodes => currentNodes.map(node => 
+        node.id === nodeId && node.data.content === text 
+          ? { ...node, data: { ...node.data, topicSpans: response.topics } } 
+          : node
+      ));
+      logger.debug('Extracted topics', { nodeId, count: response.topics.length });
+    } catch (error) {
+      logger.error('Error extracting topics', error, { nodeId });
+    }
+  };
+
+  // Options sent with every Claude request made from this canvas
+  const claudeRequestOptions = (): ClaudeRequestOptions => ({
+    settings: generationSettingsRef.current,
+    canvasId: activeCanvasIdRef.current
+  });
+
+  // Save the generation settings used for this canvas's answers. Before the canvas exists
+  // they are only kept locally and saved when it is created.
+  const handleSaveSettings = async (settings: GenerationSettings) => {
+    if (!activeCanvasId) {
+      updateGenerationSettings(settings);
+      setIsSettingsOpen(false);
+      return;
+    }
+    
+    setIsSavingSettings(true);
+    setSettingsError(null);
+    
+    try {
+      const response = await canvasApi.update(activeCanvasId, { generationSettings: settings });
+      
+      if (!response.success) {
+        throw new Error(response.error || 'API returned unsuccessful response');
+      }
+      
+      updateGenerationSettings(response.data?.generationSettings || settings);
+      setIsSettingsOpen(false);
+      logger.info('Saved generation settings', { canvasId: activeCanvasId, settings });
+    } catch (error) {
+      logger.error('Error saving generation settings', error, { canvasId: activeCanvasId });
+      setSettingsError('Settings could not be saved. Please check the values and try again.');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   const initializeCanvas = async (query: string) => {
     try {
-      // Call Claude API for initial response instead of using mock data
-      let response;
-      try {
-        logger.info('Calling Claude API for initial response', { query });
-        const apiResponse = await claudeApi.processQuery(query);
-        
-        if (!apiResponse.success || !apiResponse.data) {
-          throw new Error(apiResponse.error || 'API returned unsuccessful response');
+      const initialPosition = { x: 250, y: 300 };
+      const responseId = 'response-1';
+      
+      const responseNode: Node = {
+        id: responseId,
+        type: 'response',
+        position: initialPosition,
+        data: { 
+          id: responseId,
+          content: '',
+          query: query,
+          isStreaming: true,
+          isSelected: false,
+          onSelect: handleNodeSelection,
+          onCreateCustomFollowUp: handleCreateCustomFollowUp,
+          onNodeUpdated: handleNodeUpdate,
+          onNodeHover: handleNodeHover,
+          canvasId: canvasId || '',
+          onTopicClick: (topic: string, nodeId: string) => handleTopicClick(topic, nodeId),
+          onResize: handleNodeResize,
+          onRetry: handleRetryResponse,
+          onRegenerate: handleRegenerateResponse
         }
+      };
+      
+      // Show the response node right away and fill it in as the answer streams
+      setNodes([responseNode]);
+      setEdges([]);
+      
+      let response: ClaudeResponse;
+      try {
+        logger.info('Streaming Claude API response', { query });
+        response = await claudeStreamApi.streamQuery(query, {
+          ...cancellableStream(responseId),
+          onText: text => appendNodeText(responseId, 'content', text)
+        }, claudeRequestOptions());
         
-        response = apiResponse.data;
         logger.debug('Received Claude API response', { 
           questionLength: query.length,
           answerLength: response.answer.length,
           followUpCount: response.followUpQuestions.length
         });
       } catch (apiError) {
-        // Fallback to mock data if API call fails
-        logger.error('Error calling Claude API, using mock data', { 
+        // Fall back to a placeholder so the canvas still opens; it is flagged so it can be retried
+        const wasCancelled = isCancellation(apiError);
+        logger.error('Error calling Claude API, using placeholder answer', { 
           query, 
           error: apiError instanceof Error ? apiError.message : 'Unknown error' 
         });
         
-        // Provide mock data as fallback
         response = {
-          answer: "This is a mock answer to the query. It's designed to simulate what Claude would return for the initial query. The answer is detailed and provides thoughtful insight into the question or reflection that was posed.",
+          answer: wasCancelled
+            ? "The request was cancelled before Claude answered, so this is a placeholder. Use Retry to ask again."
+            : "Claude could not be reached, so this is a placeholder rather than a real answer. Use Retry to ask again.",
           followUpQuestions: [
             "What specific aspects of this topic interest you the most?",
             "How does this relate to your personal experiences?",
             "What other perspectives might be valuable to consider on this topic?",
-          ]
+          ],
+          degraded: true,
+          fallbackReason: 'unavailable'
         };
       }
       
-      logger.debug('Initializing canvas with data', { questionCount: response.followUpQuestions.length });
+      logger.debug('Initializing canvas with data', { 
+        questionCount: response.followUpQuestions.length,
+        degraded: !!response.degraded,
+        fallbackReason: response.fallbackReason
+      });
       
       // Create nodes and edges
       const initialNodes: Node[] = [];
       const initialEdges: Edge[] = [];
       
       try {
-        // Add initial response node (positioned on the left side)
-        const initialPosition = { x: 250, y: 300 };
-        const responseId = 'response-1';
-        
-        const responseNode: Node = {
-          id: responseId,
-          type: 'response',
-          position: initialPosition,
+        // The streamed answer is complete; the follow-up questions come from its structured tail
+        initialNodes.push({
+          ...responseNode,
           data: { 
-            id: responseId,
-            content: response.answer,
-            query: query,
-            isSelected: false,
-            onSelect: handleNodeSelection,
-            onCreateCustomFollowUp: handleCreateCustomFollowUp,
-            onNodeHover: handleNodeHover,
-            canvasId: canvasId || '',
-            onTopicClick: (topic: string, nodeId: string) => handleTopicClick(topic, nodeId),
-            onResize: handleNodeResize
+            ...responseNode.data, 
+            content: response.answer, 
+            isStreaming: false,
+            ...(response.promptTemplates && { promptTemplates: response.promptTemplates }),
+            ...(response.degraded && { degraded: true, fallbackReason: response.fallbackReason }),
+            ...(response.cached && { cached: true, cachedAt: response.cachedAt })
           }
-        };
-        initialNodes.push(responseNode);
+        });
         
         // Calculate positions for follow-up questions
         const followUpCount = response.followUpQuestions.length + 1; // +1 for custom follow-up
@@ -520,6 +962,11 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
                 question, 
                 isCustom: false,
                 hasBeenAnswered: false,
+                ...(response.promptTemplates && { promptTemplates: response.promptTemplates }),
+                // Placeholder questions from a fallback answer are replaced when it is retried
+                ...(response.degraded && { degraded: true, fallbackReason: response.fallbackReason }),
+                // Likewise for questions that came with a cached answer when it is regenerated
+                ...(response.cached && { cached: true, cachedAt: response.cachedAt }),
                 onFollowUp: handleFollowUpQuestion,
                 onGenerateChildNodes: handleGenerateChildNodes,
                 onCreateCustomFollowUp: handleCreateCustomFollowUp,
@@ -584,6 +1031,13 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
         // Auto-fit view after initializing
         setTimeout(() => fitView(), 300);
         
+        // Save the new canvas so it survives a refresh; later changes are autosaved
+        await createPersistedCanvas(query, initialNodes, initialEdges);
+        
+        if (!response.degraded) {
+          extractNodeTopics(responseId, response.answer);
+        }
+        
         return responseId; // For any post-processing
       } catch (nodeCreationError) {
         logger.error('Error creating initial nodes', nodeCreationError);
@@ -594,63 +1048,193 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     }
   };
 
+  const createPersistedCanvas = async (query: string, initialNodes: Node[], initialEdges: Edge[]) => {
+    try {
+      const snapshot = serializeGraph(initialNodes, initialEdges);
+      const response = await canvasApi.create({
+        title: query.length > 100 ? `${query.slice(0, 97)}...` : query,
+        initialQuery: query,
+        generationSettings: generationSettingsRef.current,
+        ...snapshot
+      });
+      
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'API returned unsuccessful response');
+      }
+      
+      const newCanvasId = response.data.id;
+      logger.info('Created canvas', { canvasId: newCanvasId });
+      
+      lastSavedSnapshotRef.current = JSON.stringify(snapshot);
+      updateActiveCanvasId(newCanvasId);
+      
+      // Response nodes need the canvas ID for their node API calls
+      setNodes(currentNodes => currentNodes.map(node => 
+        node.type === 'response' 
+          ? { ...node, data: { ...node.data, canvasId: newCanvasId } } 
+          : node
+      ));
+      
+      if (onCanvasCreated) {
+        onCanvasCreated(newCanvasId);
+      }
+    } catch (error) {
+      logger.error('Error saving new canvas', error, { query });
+      if (onError) {
+        onError('Your mind map could not be saved. Changes will be lost on refresh.');
+      }
+    }
+  };
+
+  // Attach the callbacks each node type expects to a node loaded from the server
+  const attachNodeCallbacks = (node: Node, id: string): Node => {
+    switch (node.type) {
+      case 'response':
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            isSelected: false,
+            canvasId: id,
+            onSelect: handleNodeSelection,
+            onCreateCustomFollowUp: handleCreateCustomFollowUp,
+            onNodeUpdated: handleNodeUpdate,
+            onNodeHover: handleNodeHover,
+            onTopicClick: (topic: string, nodeId: string) => handleTopicClick(topic, nodeId),
+            onResize: handleNodeResize,
+            onRetry: handleRetryResponse,
+            onRegenerate: handleRegenerateResponse
+          }
+        };
+      case 'followUp':
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            onFollowUp: handleFollowUpQuestion,
+            onGenerateChildNodes: handleGenerateChildNodes,
+            onCreateCustomFollowUp: handleCreateCustomFollowUp,
+            onResize: handleNodeResize,
+            onNodeHover: handleNodeHover,
+            onTopicClick: (topic: string, nodeId: string) => handleTopicClick(topic, nodeId)
+          }
+        };
+      case 'topic':
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            onTopicClick: handleTopicClick,
+            onRegenerate: handleRegenerateTopic,
+            onNodeHover: handleNodeHover,
+            onResize: handleNodeResize
+          }
+        };
+      case 'synthesis':
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            onCreateCustomFollowUp: handleCreateCustomFollowUp,
+            onNodeHover: handleNodeHover,
+            onResize: handleNodeResize
+          }
+        };
+      default:
+        return node;
+    }
+  };
+
   const loadCanvas = async (id: string) => {
     try {
-      // Mock loading canvas from API
-      logger.info('Mock loading canvas data from API', { id });
-      // In a real app, we would fetch the canvas data from the API
-      // For now, just call initializeCanvas with a placeholder query
-      initializeCanvas('This is a previously saved canvas');
+      logger.info('Loading canvas data from API', { id });
+      const response = await canvasApi.getById(id);
+      
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Canvas not found');
+      }
+      
+      const loadedNodes = (response.data.nodes || []).map(node => 
+        attachNodeCallbacks(deserializeNode(node), id)
+      );
+      const loadedEdges: Edge[] = (response.data.edges || []).map(edge => ({ ...edge }));
+      
+      // The loaded graph is already saved, so opening a canvas doesn't trigger a write
+      lastSavedSnapshotRef.current = JSON.stringify(serializeGraph(loadedNodes, loadedEdges));
+      nodesWithGeneratedChildren.current.clear();
+      updateGenerationSettings(response.data.generationSettings || {});
+      updateActiveCanvasId(id);
+      setNodes(loadedNodes);
+      setEdges(loadedEdges);
+      setArtifacts([]);
+      loadArtifacts(id);
+      
+      logger.debug('Loaded canvas graph', { 
+        id, 
+        nodeCount: loadedNodes.length, 
+        edgeCount: loadedEdges.length 
+      });
+      
+      setTimeout(() => fitView(), 300);
     } catch (error) {
       logger.error('Error loading canvas', { id, error });
+      if (onError) {
+        onError('Failed to load this mind map. Please try again.');
+      }
     }
   };
 
   const loadArtifacts = async (canvasId: string) => {
     try {
-      // In a real app, we would fetch the artifacts from the API
-      // For now, use mock data
-      const mockArtifacts: SynthesisArtifact[] = [
-        { 
-          id: 'artifact-1', 
-          title: 'Key Insights on Climate Change', 
-          content: 'Climate change is accelerating at an unprecedented rate. The global temperature is rising, causing sea levels to increase and weather patterns to become more extreme. This has significant implications for agriculture, coastal communities, and biodiversity. Addressing this issue requires international cooperation and substantial changes to how we produce and consume energy.',
-          canvasId: canvasId,
-          createdAt: new Date().toISOString()
-        },
-        { 
-          id: 'artifact-2', 
-          title: 'Future Directions for Research', 
-          content: 'Based on the analysis, several promising research directions emerge: 1) Developing more efficient carbon capture technologies, 2) Exploring the viability of alternative energy sources beyond solar and wind, 3) Studying the psychological factors that influence individual and collective action on climate issues, 4) Creating more accurate climate models that can predict local impacts.',
-          canvasId: canvasId,
-          createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-        }
-      ];
+      const response = await synthesisApi.getByCanvas(canvasId);
       
-      setArtifacts(mockArtifacts);
-      logger.debug('Loaded artifacts for canvas', { canvasId, count: mockArtifacts.length });
+      // Ignore the response if another canvas was opened in the meantime
+      if (activeCanvasIdRef.current !== canvasId) {
+        return;
+      }
+      
+      setArtifacts(response.data || []);
+      logger.debug('Loaded artifacts for canvas', { canvasId, count: response.data?.length || 0 });
     } catch (error) {
       logger.error('Error loading artifacts', { canvasId, error });
     }
   };
 
-  // Function to build context from ancestor nodes
-  const buildAncestorContext = (nodeId: string): string[] => {
-    const context: string[] = [];
-    let currentNode = nodes.find(n => n.id === nodeId);
+  // The nodes on the path from the root down to a node. A synthesis node starts a path of
+  // its own, since its sources aren't its parents.
+  const getPathFromRoot = (nodeId: string): Node[] => {
+    const path: Node[] = [];
+    // Read the live graph; handlers attached to nodes may come from an earlier render
+    const currentNodes = getNodes();
+    const currentEdges = getEdges();
+    let currentNode = currentNodes.find(n => n.id === nodeId);
     
-    while (currentNode?.data) {
-      const content = currentNode.data.content;
-      if (content) {
-        context.unshift(content);
-      }
-      const parentEdge = edges.find(e => e.target === currentNode?.id);
-      currentNode = parentEdge ? nodes.find(n => n.id === parentEdge.source) : undefined;
+    while (currentNode) {
+      path.unshift(currentNode);
+      const parentEdge = currentEdges.find(e => e.target === currentNode?.id && !isProvenanceEdge(e));
+      currentNode = parentEdge ? currentNodes.find(n => n.id === parentEdge.source) : undefined;
     }
     
-    return context;
+    return path;
   };
 
+  // Build the conversation on the path from the root down to a node, as alternating
+  // user and assistant turns, with the files attached to each node on the way
+  const buildConversation = (nodeId: string): ConversationTurn[] =>
+    getPathFromRoot(nodeId).flatMap((node, index, path) => [
+      // A response below a follow-up answers that follow-up's question
+      ...getNodeTurns(node, path[index - 1]?.type !== 'followUp'),
+      ...getAttachmentTurns(node)
+    ]);
+
+  // On grounded canvases, the sources and document attachments on the path from the root
+  // down to a node, which the answer below it may cite
+  const groundingOptions = (nodeId: string): ClaudeRequestOptions => (
+    generationSettingsRef.current.grounded
+      ? { documents: getPathFromRoot(nodeId).flatMap(getGroundingDocuments) }
+      : {}
+  );
+
   const handleFollowUpQuestion = (nodeId: string) => {
     handleGenerateChildNodes(nodeId).catch(error => {
       console.error('Error in handleFollowUpQuestion:', error);
@@ -661,61 +1245,189 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
   };
 
   const handleGenerateChildNodes = async (nodeId: string) => {
+    const answerNodeId = `${nodeId}-answer-${Date.now()}`;
+    
     try {
-      const node = nodes.find(n => n.id === nodeId);
+      const node = getNodes().find(n => n.id === nodeId);
       if (!node) {
         console.error('Node not found:', nodeId);
         return;
       }
 
-      // Check if this node has already generated children
-      const existingEdges = edges.filter(e => e.source === nodeId);
-      if (existingEdges.length > 0) {
+      // Check if this node has already generated children (or is streaming them now)
+      const existingEdges = getEdges().filter(e => e.source === nodeId && !isProvenanceEdge(e));
+      if (existingEdges.length > 0 || nodesWithGeneratedChildren.current.has(nodeId)) {
         console.log('Node already has children, skipping generation');
         return;
       }
+      nodesWithGeneratedChildren.current.add(nodeId);
+
+      // Once asked, a placeholder question is the user's own and is kept like any other
+      if (node.data.degraded) {
+        handleNodeUpdate(nodeId, { degraded: false, fallbackReason: undefined });
+      }
 
-      const context = buildAncestorContext(nodeId);
-      const response = await claudeApi.processFollowUp(node.data.content, context);
+      const question = node.data.question || node.data.content;
+      // The question is sent as the prompt, so the conversation ends at the answer it follows
+      const parentEdge = getEdges().find(e => e.target === nodeId);
+      const context = parentEdge ? buildConversation(parentEdge.source) : [];
 
-      const newNodes = response.followUpQuestions.map((question: string, index: number) => {
-        const childId = `${nodeId}-child-${Date.now()}-${index}`;
-        return createFollowUpNode(childId, question, nodeId);
-      });
+      // Stream the answer into a response node below the question
+      const [answerPosition] = calculateNodePositions(nodeId, 1, getNodes(), getEdges());
+      const answerNode = attachNodeCallbacks({
+        id: answerNodeId,
+        type: 'response',
+        position: answerPosition,
+        data: { id: answerNodeId, content: '', query: question, isStreaming: true }
+      }, activeCanvasIdRef.current || '');
+
+      setNodes(prevNodes => [...prevNodes, answerNode]);
+      setEdges(prevEdges => [...prevEdges, createLinkEdge(nodeId, answerNodeId)]);
 
-      const newEdges = newNodes.map((childNode: FollowUpNode): FlowEdge => ({
-        id: `${nodeId}-to-${childNode.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        source: nodeId,
-        target: childNode.id,
-        type: 'smoothstep',
-        animated: true,
-        style: { stroke: '#6366f1', strokeWidth: 2 },
-        markerEnd: {
-          type: MarkerType.ArrowClosed,
-          width: 20,
-          height: 20,
-          color: '#6366f1'
+      let followUpIds: string[] = [];
+      const response = await claudeStreamApi.streamFollowUp(question, context, {
+        ...cancellableStream(answerNodeId),
+        onText: text => appendNodeText(answerNodeId, 'content', text),
+        // Follow-up questions only appear once the structured part of the reply is complete
+        onFollowUps: followUpQuestions => {
+          followUpIds = addFollowUpNodes(answerNodeId, followUpQuestions);
         }
-      }));
-
-      // Filter out any duplicate edges
-      const uniqueEdges = newEdges.filter((newEdge: FlowEdge) => 
-        !edges.some(existingEdge => 
-          existingEdge.source === newEdge.source && 
-          existingEdge.target === newEdge.target
-        )
-      );
+      }, { ...claudeRequestOptions(), ...groundingOptions(nodeId) });
 
-      setNodes(prevNodes => [...prevNodes, ...newNodes]);
-      setEdges(prevEdges => [...prevEdges, ...uniqueEdges]);
+      finishStreamingNode(answerNodeId, 'content', response.answer);
+      recordGeneration([answerNodeId, ...followUpIds], response);
+      recordPromptContext(answerNodeId, response.promptContext);
+      recordCitations(answerNodeId, response.citations);
+      if (!response.degraded) {
+        extractNodeTopics(answerNodeId, response.answer);
+      }
     } catch (error) {
+      nodesWithGeneratedChildren.current.delete(nodeId);
+
+      // A cancelled answer is removed along with whatever it had streamed, so it can be asked again
+      if (isCancellation(error)) {
+        logger.info('Answer generation cancelled', { nodeId });
+        removeStreamingNode(answerNodeId);
+        return;
+      }
+
       console.error('Error generating child nodes:', error);
+      discardStreamingNode(answerNodeId, 'content');
       if (onError) {
         onError('Failed to generate follow-up questions. Please try again.');
       }
     }
   };
 
+  // Add generated follow-up question nodes below an answer, returning their IDs
+  const addFollowUpNodes = (answerNodeId: string, followUpQuestions: string[]): string[] => {
+    const newNodes = followUpQuestions.map((followUpQuestion: string, index: number) => {
+      const childId = `${answerNodeId}-child-${Date.now()}-${index}`;
+      return createFollowUpNode(childId, followUpQuestion, answerNodeId);
+    });
+
+    setNodes(prevNodes => [...prevNodes, ...newNodes]);
+    setEdges(prevEdges => [
+      ...prevEdges,
+      ...newNodes.map((childNode: FollowUpNode) => createLinkEdge(answerNodeId, childNode.id))
+    ]);
+
+    return newNodes.map(childNode => childNode.id);
+  };
+
+  // Ask again for an answer that came back as a placeholder, or with bypassCache, for a fresh
+  // version of one served from the cache. Its placeholder or cached follow-up questions are
+  // replaced once new ones arrive, unless they have been asked already.
+  const handleRetryResponse = async (nodeId: string, { bypassCache = false }: { bypassCache?: boolean } = {}) => {
+    const node = getNodes().find(n => n.id === nodeId);
+    if (!node || node.data.isStreaming) {
+      return;
+    }
+
+    const currentEdges = getEdges();
+    const parentEdge = currentEdges.find(e => e.target === nodeId);
+    // The question is sent as the prompt, so the conversation ends at the answer it follows
+    const questionEdge = parentEdge && currentEdges.find(e => e.target === parentEdge.source);
+    const { content, degraded, fallbackReason, cached, cachedAt } = node.data;
+    const previous = { content, degraded, fallbackReason, cached, cachedAt };
+    logger.info(bypassCache ? 'Regenerating cached answer' : 'Retrying placeholder answer', { 
+      nodeId, 
+      isInitialQuery: !parentEdge 
+    });
+
+    setNodes(currentNodes => currentNodes.map(n => 
+      n.id === nodeId 
+        ? { 
+            ...n, 
+            data: { 
+              ...n.data, 
+              content: '', 
+              isStreaming: true, 
+              degraded: false, 
+              fallbackReason: undefined, 
+              cached: undefined, 
+              cachedAt: undefined 
+            } 
+          } 
+        : n
+    ));
+
+    let followUpIds: string[] = [];
+    const handlers = {
+      ...cancellableStream(nodeId),
+      onText: (text: string) => appendNodeText(nodeId, 'content', text),
+      onFollowUps: (followUpQuestions: string[]) => {
+        const staleIds = new Set(getNodes()
+          .filter(n => n.type === 'followUp' && (n.data.degraded || n.data.cached))
+          .filter(n => currentEdges.some(e => e.source === nodeId && e.target === n.id))
+          .filter(n => !getEdges().some(e => e.source === n.id))
+          .map(n => n.id));
+
+        setNodes(currentNodes => currentNodes.filter(n => !staleIds.has(n.id)));
+        setEdges(edgesNow => edgesNow.filter(e => !staleIds.has(e.target)));
+        followUpIds = addFollowUpNodes(nodeId, followUpQuestions);
+      }
+    };
+
+    try {
+      // Answers below a question are follow-ups; the root answer is the canvas's initial query
+      const options = { ...claudeRequestOptions(), bypassCache };
+      const response = parentEdge
+        ? await claudeStreamApi.streamFollowUp(
+            node.data.query, 
+            questionEdge ? buildConversation(questionEdge.source) : [], 
+            handlers, 
+            { ...options, ...groundingOptions(parentEdge.source) }
+          )
+        : await claudeStreamApi.streamQuery(node.data.query, handlers, options);
+
+      finishStreamingNode(nodeId, 'content', response.answer);
+      recordGeneration([nodeId, ...followUpIds], response);
+      recordPromptContext(nodeId, response.promptContext);
+      recordCitations(nodeId, response.citations);
+      if (!response.degraded) {
+        extractNodeTopics(nodeId, response.answer, node.data);
+      }
+    } catch (error) {
+      // Put the previous answer back so it can be tried again
+      finishStreamingNode(nodeId, 'content', previous.content);
+      recordGeneration([nodeId], { ...previous, fallbackReason: previous.fallbackReason || 'unavailable' });
+
+      if (isCancellation(error)) {
+        logger.info('Retry cancelled', { nodeId });
+        return;
+      }
+
+      logger.error('Error retrying answer', error, { nodeId, bypassCache });
+      if (onError) {
+        onError('Failed to get an answer. Please try again.');
+      }
+    }
+  };
+
+  // Replace an answer served from the cache with a freshly generated one
+  const handleRegenerateResponse = (nodeId: string) => handleRetryResponse(nodeId, { bypassCache: true });
+
   const handleNodeSelection = (nodeId: string, selected: boolean) => {
     setSelectedNodes(prev => {
       if (selected) {
@@ -923,20 +1635,18 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     }
   };
 
-  const extractNodeContents = (nodeIds: string[]): string[] => {
-    return nodeIds.map(nodeId => {
+  // Turn the selected nodes into question and answer turns, using the same turns as the
+  // conversation sent with follow-ups
+  const extractNodeTurns = (nodeIds: string[]): ConversationTurn[] => {
+    return nodeIds.flatMap(nodeId => {
       const node = nodes.find(n => n.id === nodeId);
       
       // Check for both traditional response nodes and answered follow-up nodes
-      if (node) {
-        if (node.type === 'response' && node.data) {
-          return `Question: ${node.data.query}\nAnswer: ${node.data.content}`;
-        } else if (node.type === 'followUp' && node.data && node.data.hasBeenAnswered) {
-          return `Question: ${node.data.question}\nAnswer: ${node.data.answer}`;
-        }
+      if (node?.type === 'response' || (node?.type === 'followUp' && node.data?.hasBeenAnswered)) {
+        return getNodeTurns(node, true);
       }
-      return '';
-    }).filter(content => content !== '');
+      return [];
+    });
   };
 
   const synthesizeNodes = async () => {
@@ -947,91 +1657,76 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     
     setIsProcessingSynthesis(true);
     setSynthesisFeedback('Processing synthesis...');
+    const controller = new AbortController();
+    synthesisAbortRef.current = controller;
     
     try {
       logger.info('Synthesizing selected nodes', { selectedNodes });
       
       // Extract content from selected nodes
-      const nodeContents = extractNodeContents(selectedNodes);
+      const nodeTurns = extractNodeTurns(selectedNodes);
       
-      if (nodeContents.length === 0) {
+      if (nodeTurns.length === 0) {
         throw new Error('No valid content found in selected nodes');
       }
       
+      const canvasId = activeCanvasIdRef.current;
+      if (!canvasId) {
+        throw new Error('The mind map has not been saved yet');
+      }
+      
       // Call Claude API for synthesis
-      try {
-        logger.info('Calling Claude API for synthesis', { 
-          selectedNodesCount: selectedNodes.length,
-          hasCustomPrompt: !!customSynthesisPrompt
-        });
-        
-        const apiResponse = await claudeApi.synthesize(nodeContents, customSynthesisPrompt || undefined);
-        
-        if (!apiResponse.success || !apiResponse.data) {
-          throw new Error(apiResponse.error || 'API returned unsuccessful response');
-        }
-        
-        // Create a new artifact from the API response
-        const newArtifact: SynthesisArtifact = {
-          id: `artifact-${Date.now()}`,
-          title: apiResponse.data.title,
-          content: apiResponse.data.content,
-          canvasId: canvasId || 'temp-canvas',
-          createdAt: new Date().toISOString()
-        };
-        
-        // Add to artifacts list
-        setArtifacts(prev => [newArtifact, ...prev]);
-        
-        logger.info('Synthesis complete', { artifactId: newArtifact.id });
-      } catch (apiError) {
-        logger.error('Error calling Claude API for synthesis', { 
-          error: apiError instanceof Error ? apiError.message : 'Unknown error' 
-        });
-        
-        // Fallback to mock data if API call fails
-        logger.info('Using mock synthesis response as fallback');
-        
-        // In a real app, we would call the API
-        // For now, simulate a delay and return mock data
-        const mockSynthesisResponse = await new Promise<{title: string, content: string}>((resolve) => {
-          setTimeout(() => {
-            resolve({
-              title: "Synthesis of Selected Insights",
-              content: "This synthesis combines the key points from the selected nodes:\n\n" +
-                "1. The primary challenge identified relates to understanding complex systems.\n\n" +
-                "2. Multiple approaches can be effective, including analytical and holistic methods.\n\n" +
-                "3. Further exploration should focus on integrating diverse perspectives.\n\n" +
-                "These insights suggest that a comprehensive approach is needed that acknowledges both the details and the broader context."
-            });
-          }, 2000);
-        });
-        
-        // Create a new artifact from the mock response
-        const newArtifact: SynthesisArtifact = {
-          id: `artifact-${Date.now()}`,
-          title: mockSynthesisResponse.title,
-          content: mockSynthesisResponse.content,
-          canvasId: canvasId || 'temp-canvas',
-          createdAt: new Date().toISOString()
-        };
-        
-        // Add to artifacts list
+      logger.info('Calling Claude API for synthesis', { 
+        selectedNodesCount: selectedNodes.length,
+        hasCustomPrompt: !!customSynthesisPrompt
+      });
+      
+      const apiResponse = await claudeApi.synthesize(
+        nodeTurns, 
+        customSynthesisPrompt || undefined, 
+        { ...claudeRequestOptions(), canvasId, signal: controller.signal }
+      );
+      
+      if (!apiResponse.success || !apiResponse.data) {
+        throw new Error(apiResponse.error || 'API returned unsuccessful response');
+      }
+      
+      // Save the result as an artifact of the canvas it was synthesized from
+      const saved = await synthesisApi.create({
+        title: apiResponse.data.title,
+        content: apiResponse.data.content,
+        mindmapId: canvasId,
+        selectedNodes,
+        customPrompt: customSynthesisPrompt || undefined
+      });
+      
+      if (!saved.success || !saved.data) {
+        throw new Error(saved.error || 'Failed to save the synthesis');
+      }
+      
+      const newArtifact = saved.data;
+      if (activeCanvasIdRef.current === canvasId) {
         setArtifacts(prev => [newArtifact, ...prev]);
-        
-        setSynthesisFeedback('Using mock data due to API error.');
-        logger.info('Synthesis complete (using mock data)', { artifactId: newArtifact.id });
       }
       
+      logger.info('Synthesis complete', { artifactId: newArtifact.id });
+      
       // Reset synthesis state
       setIsSynthesizeMode(false);
       setSelectedNodes([]);
       setCustomSynthesisPrompt('');
       setSynthesisFeedback('');
     } catch (error) {
+      if (controller.signal.aborted) {
+        logger.info('Synthesis cancelled');
+        setSynthesisFeedback('Synthesis cancelled.');
+        return;
+      }
+
       logger.error('Error synthesizing nodes', error);
       setSynthesisFeedback('Failed to synthesize: ' + (error instanceof Error ? error.message : 'Unknown error'));
     } finally {
+      synthesisAbortRef.current = null;
       setIsProcessingSynthesis(false);
     }
   };
@@ -1042,6 +1737,130 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     event.dataTransfer.dropEffect = 'move';
   }, []);
 
+  // Place a synthesis artifact on the canvas as a synthesis node, with a provenance edge from
+  // each of its source nodes still on the canvas. Without a position it goes to the right of
+  // its sources. Each artifact is placed once.
+  const placeArtifact = (artifact: SynthesisArtifact, position?: { x: number, y: number }) => {
+    const currentNodes = getNodes();
+    if (currentNodes.some(n => n.type === 'synthesis' && n.data.artifactId === artifact.id)) {
+      logger.info('Artifact is already on the canvas', { artifactId: artifact.id });
+      return;
+    }
+    
+    const sources = currentNodes.filter(n => artifact.selectedNodes.includes(n.id));
+    const defaultPosition = sources.length > 0
+      ? {
+          x: Math.max(...sources.map(n => n.position.x)) + NODE_WIDTH + GRID_HORIZONTAL_SPACING,
+          y: sources.reduce((total, n) => total + n.position.y, 0) / sources.length
+        }
+      : { x: 650, y: 400 };
+    
+    const nodeId = `synthesis-${Date.now()}`;
+    const synthesisNode = attachNodeCallbacks({
+      id: nodeId,
+      type: 'synthesis',
+      position: position || avoidOverlap(defaultPosition, currentNodes),
+      data: {
+        id: nodeId,
+        artifactId: artifact.id,
+        title: artifact.title,
+        content: artifact.content,
+        sourceNodeIds: sources.map(n => n.id),
+        synthesizedAt: artifact.revisedAt || artifact.createdAt
+      }
+    }, activeCanvasIdRef.current || '');
+    
+    setNodes(prevNodes => [...prevNodes, synthesisNode]);
+    setEdges(prevEdges => [...prevEdges, ...sources.map(n => createProvenanceEdge(n.id, nodeId))]);
+    logger.info('Placed artifact on the canvas', { artifactId: artifact.id, nodeId, sourceCount: sources.length });
+  };
+
+  // Place an artifact dragged from the sidebar where it is dropped
+  const onDrop = (event: React.DragEvent) => {
+    const artifact = artifacts.find(a => a.id === event.dataTransfer.getData(ARTIFACT_DRAG_TYPE));
+    if (!artifact) {
+      return;
+    }
+    
+    event.preventDefault();
+    const bounds = reactFlowWrapper.current?.getBoundingClientRect();
+    placeArtifact(artifact, project({
+      x: event.clientX - (bounds?.left || 0),
+      y: event.clientY - (bounds?.top || 0)
+    }));
+  };
+
+  // Keep synthesis nodes in step with their artifacts when those are renamed, edited or re-run
+  const handleArtifactUpdated = (artifact: SynthesisArtifact) => {
+    setArtifacts(prev => prev.map(a => (a.id === artifact.id ? artifact : a)));
+    setNodes(currentNodes => currentNodes.map(node => 
+      node.type === 'synthesis' && node.data.artifactId === artifact.id
+        ? { 
+            ...node, 
+            data: { 
+              ...node.data, 
+              title: artifact.title, 
+              content: artifact.content, 
+              synthesizedAt: artifact.revisedAt || artifact.createdAt 
+            } 
+          }
+        : node
+    ));
+  };
+
+  // Synthesize an artifact again from its source nodes as they are now, with its saved
+  // instructions or new ones, and save the result as its next revision. Source nodes no longer
+  // on the canvas are left out. Aborting the signal stops the synthesis.
+  const rerunArtifact = async (artifact: SynthesisArtifact, customPrompt: string, signal: AbortSignal) => {
+    const nodeTurns = extractNodeTurns(artifact.selectedNodes);
+    if (nodeTurns.length === 0) {
+      throw new Error('None of the nodes this was synthesized from are on the canvas anymore');
+    }
+    
+    logger.info('Re-running synthesis', { artifactId: artifact.id, hasCustomPrompt: !!customPrompt });
+    
+    // Skip the cache, which would answer unchanged sources with the same synthesis again
+    const apiResponse = await claudeApi.synthesize(
+      nodeTurns, 
+      customPrompt || undefined, 
+      { ...claudeRequestOptions(), canvasId: artifact.mindmapId, bypassCache: true, signal }
+    );
+    
+    if (!apiResponse.success || !apiResponse.data) {
+      throw new Error(apiResponse.error || 'API returned unsuccessful response');
+    }
+    
+    const saved = await synthesisApi.addRevision(artifact.id, {
+      content: apiResponse.data.content,
+      customPrompt
+    });
+    
+    if (!saved.success || !saved.data) {
+      throw new Error(saved.error || 'Failed to save the synthesis');
+    }
+    
+    if (activeCanvasIdRef.current === artifact.mindmapId) {
+      handleArtifactUpdated(saved.data);
+    }
+    logger.info('Re-ran synthesis', { artifactId: artifact.id, revisions: saved.data.revisions?.length || 0 });
+  };
+
+  // Mark synthesis nodes stale once any of their sources is edited after the synthesis
+  useEffect(() => {
+    const changed = nodes.filter(node => 
+      node.type === 'synthesis' && !!node.data.isStale !== isSynthesisStale(node, nodes)
+    );
+    if (changed.length === 0) {
+      return;
+    }
+    
+    setNodes(nds => nds.map(node => 
+      changed.some(n => n.id === node.id)
+        ? { ...node, data: { ...node.data, isStale: isSynthesisStale(node, nds) } }
+        : node
+    ));
+  }, [nodes, setNodes]);
+
   // Update node selection state in ReactFlow nodes
   useEffect(() => {
     setNodes(nds => 
@@ -1090,24 +1909,29 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
   // Add this function inside the MindMapCanvas component
   const handleNodeUpdate = (nodeId: string, updatedData: any) => {
     logger.info('Updating node data', { nodeId, updatedData });
+    const previous = getNodes().find(node => node.id === nodeId)?.data;
     
     setNodes(nds => 
       nds.map(node => {
         if (node.id === nodeId) {
           // Update node data while preserving existing properties
+          // (edit metadata comes from the server along with content changes)
           return {
             ...node,
             data: {
               ...node.data,
-              ...updatedData,
-              isEdited: true,
-              lastEditedAt: new Date().toISOString(),
+              ...updatedData
             }
           };
         }
         return node;
       })
     );
+    
+    // Edited content gets its topics found again
+    if (typeof updatedData.content === 'string') {
+      extractNodeTopics(nodeId, updatedData.content, previous);
+    }
   };
 
   // Add a function to fit the view
@@ -1188,43 +2012,33 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
 
   // Then define the handleTopicClick function and store it in the ref
   const handleTopicClick = async (topic: string, parentNodeId: string) => {
+    const topicNodeId = `topic-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    
     try {
-      const context = buildAncestorContext(parentNodeId);
-      const response = await claudeApi.processTopic(topic, context);
-
-      const topicNodeId = `topic-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const newNode = createTopicNode(topicNodeId, response.explanation, parentNodeId);
-
-      const newEdgeId = `${parentNodeId}-to-${topicNodeId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const newEdge: FlowEdge = {
-        id: newEdgeId,
-        source: parentNodeId,
-        target: topicNodeId,
-        type: 'smoothstep',
-        animated: true,
-        style: { stroke: '#6366f1', strokeWidth: 2 },
-        markerEnd: {
-          type: MarkerType.ArrowClosed,
-          width: 20,
-          height: 20,
-          color: '#6366f1'
-        }
-      };
+      const context = buildConversation(parentNodeId);
 
-      // Check for duplicate edges
-      const isDuplicate = edges.some(existingEdge => 
-        existingEdge.source === newEdge.source && 
-        existingEdge.target === newEdge.target
-      );
+      // Show the topic node right away and fill in the explanation as it streams
+      const newNode = createTopicNode(topicNodeId, topic, '', parentNodeId);
+      setNodes(prevNodes => [...prevNodes, { ...newNode, data: { ...newNode.data, isStreaming: true } }]);
+      setEdges(prevEdges => [...prevEdges, createLinkEdge(parentNodeId, topicNodeId)]);
 
-      if (!isDuplicate) {
-        setNodes(prevNodes => [...prevNodes, newNode]);
-        setEdges(prevEdges => [...prevEdges, newEdge]);
-      } else {
-        console.log('Skipping duplicate edge creation');
-      }
+      const response = await claudeStreamApi.streamTopic(topic, context, {
+        ...cancellableStream(topicNodeId),
+        onText: text => appendNodeText(topicNodeId, 'explanation', text)
+      }, claudeRequestOptions());
+
+      finishStreamingNode(topicNodeId, 'explanation', response.explanation);
+      recordGeneration([topicNodeId], response);
+      recordPromptContext(topicNodeId, response.promptContext);
     } catch (error) {
+      if (isCancellation(error)) {
+        logger.info('Topic explanation cancelled', { topic });
+        removeStreamingNode(topicNodeId);
+        return;
+      }
+
       console.error('Error processing topic:', error);
+      discardStreamingNode(topicNodeId, 'explanation');
       // Show error toast or notification to user
       if (onError) {
         onError('Failed to process topic. Please try again.');
@@ -1232,11 +2046,80 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     }
   };
 
+  // Replace a topic explanation served from the cache with a freshly generated one
+  const handleRegenerateTopic = async (nodeId: string) => {
+    const node = getNodes().find(n => n.id === nodeId);
+    const parentEdge = getEdges().find(e => e.target === nodeId);
+    if (!node || !parentEdge || node.data.isStreaming) {
+      return;
+    }
+
+    const { explanation, cached, cachedAt } = node.data;
+    logger.info('Regenerating cached topic explanation', { nodeId, topic: node.data.topic });
+
+    setNodes(currentNodes => currentNodes.map(n => 
+      n.id === nodeId 
+        ? { ...n, data: { ...n.data, explanation: '', isStreaming: true, cached: undefined, cachedAt: undefined } } 
+        : n
+    ));
+
+    try {
+      const response = await claudeStreamApi.streamTopic(node.data.topic, buildConversation(parentEdge.source), {
+        ...cancellableStream(nodeId),
+        onText: text => appendNodeText(nodeId, 'explanation', text)
+      }, { ...claudeRequestOptions(), bypassCache: true });
+
+      finishStreamingNode(nodeId, 'explanation', response.explanation);
+      recordGeneration([nodeId], response);
+      recordPromptContext(nodeId, response.promptContext);
+    } catch (error) {
+      // Put the previous explanation back so it can be regenerated again
+      finishStreamingNode(nodeId, 'explanation', explanation);
+      recordGeneration([nodeId], { cached, cachedAt });
+
+      if (isCancellation(error)) {
+        logger.info('Topic regeneration cancelled', { nodeId });
+        return;
+      }
+
+      logger.error('Error regenerating topic explanation', error, { nodeId });
+      if (onError) {
+        onError('Failed to regenerate the explanation. Please try again.');
+      }
+    }
+  };
+
   // Store the function in the ref
   useEffect(() => {
     topicClickRefHolder.current = handleTopicClick;
   }, [handleTopicClick]);
 
+  // Function to create the highlighted edge used for nodes generated from another node
+  const createLinkEdge = (source: string, target: string): FlowEdge => ({
+    id: `${source}-to-${target}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    source,
+    target,
+    type: 'smoothstep',
+    animated: true,
+    style: { stroke: '#6366f1', strokeWidth: 2 },
+    markerEnd: {
+      type: MarkerType.ArrowClosed,
+      width: 20,
+      height: 20,
+      color: '#6366f1'
+    }
+  });
+
+  // Function to create the dashed edge from a source node to a synthesis made from it
+  const createProvenanceEdge = (source: string, target: string): FlowEdge => ({
+    id: `provenance-${source}-to-${target}`,
+    source,
+    target,
+    type: 'provenance',
+    animated: false,
+    style: { stroke: '#10b981', strokeWidth: 1.5 }
+  });
+
   // Function to create a standard edge
   const createEdge = (source: string, target: string) => {
     logger.debug('Creating edge', { source, target, type: 'smoothstep' });
@@ -1253,12 +2136,12 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     };
   };
 
-  const createTopicNode = (id: string, explanation: string, parentId: string): TopicNode => {
+  const createTopicNode = (id: string, topic: string, explanation: string, parentId: string): TopicNode => {
     const angle = Math.random() * Math.PI * 2;
     const distance = 300 + Math.random() * 100;
     
     // Find parent node position
-    const parentNode = nodes.find(n => n.id === parentId);
+    const parentNode = getNodes().find(n => n.id === parentId);
     const position = parentNode ? {
       x: parentNode.position.x + Math.cos(angle) * distance,
       y: parentNode.position.y + Math.sin(angle) * distance
@@ -1270,9 +2153,10 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
       position,
       data: {
         id,
-        topic: id,
+        topic,
         explanation,
-        onTopicClick: handleTopicClick
+        onTopicClick: handleTopicClick,
+        onRegenerate: handleRegenerateTopic
       }
     };
   };
@@ -1282,7 +2166,7 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
     const distance = 300 + Math.random() * 100;
     
     // Find parent node position
-    const parentNode = nodes.find(n => n.id === parentId);
+    const parentNode = getNodes().find(n => n.id === parentId);
     const position = parentNode ? {
       x: parentNode.position.x + Math.cos(angle) * distance,
       y: parentNode.position.y + Math.sin(angle) * distance
@@ -1305,7 +2189,7 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
   return (
     <div className="h-full flex">
       {/* Left Sidebar */}
-      <LeftSidebar currentCanvasId={canvasId} />
+      <LeftSidebar currentCanvasId={activeCanvasId} />
       
       {/* Main Canvas */}
       <div className="flex-grow h-full relative" ref={reactFlowWrapper}>
@@ -1317,6 +2201,7 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
           onDragOver={onDragOver}
+          onDrop={onDrop}
           fitView
           onInit={onInit}
         >
@@ -1324,6 +2209,28 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
           <Controls />
         </ReactFlow>
         
+        {/* Generation settings */}
+        {isSettingsOpen ? (
+          <GenerationSettingsPanel
+            settings={generationSettings}
+            isSaving={isSavingSettings}
+            error={settingsError}
+            onSave={handleSaveSettings}
+            onClose={() => {
+              setIsSettingsOpen(false);
+              setSettingsError(null);
+            }}
+          />
+        ) : (
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="absolute top-4 right-4 p-2 bg-white rounded-full shadow border border-gray-200 text-gray-600 hover:text-indigo-600 z-10"
+            aria-label="Generation settings"
+          >
+            <FiSettings size={18} />
+          </button>
+        )}
+        
         {/* Synthesize UI */}
         {isSynthesizeMode && (
           <div className="absolute bottom-4 right-4 left-4 bg-white p-4 rounded-lg shadow-lg border border-indigo-200">
@@ -1373,12 +2280,16 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
             <div className="flex justify-end space-x-3">
               <button
                 onClick={() => {
+                  // While a synthesis is running, Cancel stops it and keeps the selection
+                  if (isProcessingSynthesis) {
+                    synthesisAbortRef.current?.abort();
+                    return;
+                  }
                   setIsSynthesizeMode(false);
                   setSelectedNodes([]);
                   setCustomSynthesisPrompt('');
                 }}
                 className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
-                disabled={isProcessingSynthesis}
               >
                 Cancel
               </button>
@@ -1400,9 +2311,13 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ initialQuery, canvasId, o
       
       {/* Right Sidebar */}
       <RightSidebar 
-        currentCanvasId={canvasId} 
+        currentCanvasId={activeCanvasId} 
         onSynthesizeClick={handleSynthesizeClick}
         artifacts={artifacts}
+        onArtifactUpdated={handleArtifactUpdated}
+        onArtifactDeleted={artifactId => setArtifacts(prev => prev.filter(a => a.id !== artifactId))}
+        onPlaceArtifact={artifact => placeArtifact(artifact)}
+        onRerunArtifact={rerunArtifact}
       />
     </div>
   );
@@ -0,0 +1,24 @@
+import { BaseEdge, EdgeProps, getSmoothStepPath } from 'reactflow';
+
+// A dashed edge from a source node to a synthesis made from it. It records where the
+// synthesis came from and isn't part of the question and answer tree.
+export default function ProvenanceEdge({
+  sourceX,
+  sourceY,
+  sourcePosition,
+  targetX,
+  targetY,
+  targetPosition,
+  style,
+  markerEnd
+}: EdgeProps) {
+  const [path] = getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+
+  return (
+    <BaseEdge
+      path={path}
+      markerEnd={markerEnd}
+      style={{ stroke: '#10b981', strokeWidth: 1.5, ...style, strokeDasharray: '6 4' }}
+    />
+  );
+}
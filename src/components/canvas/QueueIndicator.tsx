@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { FiClock, FiX } from 'react-icons/fi';
+import { QueueStatus } from '../../types';
+
+interface QueueIndicatorProps {
+  status: QueueStatus;
+  onCancel?: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Shown on a node whose request is waiting in the server's queue: its place in line,
+// a countdown to the estimated start, and a way to cancel it
+const QueueIndicator: React.FC<QueueIndicatorProps> = ({ status, onCancel }) => {
+  const [secondsLeft, setSecondsLeft] = useState(status.etaSeconds);
+
+  // Restart the countdown from every new estimate the server sends
+  useEffect(() => {
+    setSecondsLeft(status.etaSeconds);
+    const timer = setInterval(() => {
+      setSecondsLeft(seconds => Math.max(seconds - 1, 0));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  return (
+    <div className="mb-2 flex items-center justify-between gap-3 rounded-md border border-indigo-200 bg-indigo-50 px-3 py-2 text-sm text-indigo-800">
+      <span className="flex items-center">
+        <FiClock size={14} className="mr-2 flex-shrink-0" />
+        <span>
+          Queued #{status.position} — {secondsLeft > 0 ? `starts in ~${formatCountdown(secondsLeft)}` : 'starting soon'}
+        </span>
+      </span>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="inline-flex flex-shrink-0 items-center rounded px-2 py-1 font-medium text-indigo-900 hover:bg-indigo-100"
+          aria-label="Cancel this request"
+        >
+          <FiX size={14} className="mr-1" />
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QueueIndicator;
@@ -13,11 +13,31 @@ import {
   FiLink,
   FiMaximize,
   FiMinimize,
-  FiPlus
+  FiPlus,
+  FiAlertTriangle,
+  FiRefreshCw,
+  FiStopCircle,
+  FiDatabase
 } from 'react-icons/fi';
 import logger from '../../utils/logger';
-import { Attachment, Source } from '../../types';
+import { Attachment, Citation, FallbackReason, PromptContext, QueueStatus, Source, TopicSpan } from '../../types';
 import { nodeApi } from '../../services/api';
+import { getTopicSpans, splitByTopics } from '../../utils/topics';
+import QueueIndicator from './QueueIndicator';
+import ContextInspector from './ContextInspector';
+
+// Why a placeholder was shown instead of a real answer, as explained on the badge
+const FALLBACK_REASON_LABELS: Record<FallbackReason, string> = {
+  missing_api_key: 'The AI provider is not configured',
+  rate_limited: 'Too many requests right now',
+  overloaded: 'The AI service is overloaded',
+  invalid_output: 'The AI returned an unusable reply',
+  unavailable: 'The AI service could not be reached'
+};
+
+// Citation markers in a grounded answer: [1], or several together as [1, 2]. The capture group
+// keeps the numbers when the content is split on markers.
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/;
 
 // Define our custom data properties
 interface ResponseNodeProps {
@@ -31,12 +51,25 @@ interface ResponseNodeProps {
   lastEditedAt?: string;
   attachments?: Attachment[];
   sources?: Source[];
+  isStreaming?: boolean;
+  queueStatus?: QueueStatus;
+  degraded?: boolean;
+  fallbackReason?: FallbackReason;
+  cached?: boolean;
+  cachedAt?: string;
+  promptContext?: PromptContext;
+  citations?: Citation[];
+  // The key concepts of the content, found by the server
+  topicSpans?: TopicSpan[];
   onSelect: (id: string, selected: boolean) => void;
   onCreateCustomFollowUp?: (parentId: string) => void;
   onNodeUpdated?: (nodeId: string, newData: any) => void;
   onResize?: (nodeId: string, expanded: boolean) => void;
   onNodeHover?: (nodeId: string | null) => void;
   onTopicClick?: (nodeId: string, topic: string) => void;
+  onRetry?: (nodeId: string) => void;
+  onRegenerate?: (nodeId: string) => void;
+  onCancel?: () => void;
 }
 
 // Our component props now extend ReactFlow's NodeProps
@@ -48,7 +81,9 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
   const [showAttachments, setShowAttachments] = useState(false);
   const [showSources, setShowSources] = useState(false);
   const [newSource, setNewSource] = useState({ text: '', url: '' });
+  const [highlightedCitation, setHighlightedCitation] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const citationRefs = useRef<Record<number, HTMLLIElement | null>>({});
   const [isHovered, setIsHovered] = useState(false);
 
   const { 
@@ -60,31 +95,28 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
     isEdited, 
     attachments = [], 
     sources = [],
+    isStreaming = false,
+    queueStatus,
+    degraded = false,
+    fallbackReason,
+    cached = false,
+    cachedAt,
+    promptContext,
+    citations = [],
+    topicSpans,
     onSelect, 
     onCreateCustomFollowUp,
     onNodeUpdated,
     onResize,
     onNodeHover,
-    onTopicClick
+    onTopicClick,
+    onRetry,
+    onRegenerate,
+    onCancel
   } = data;
   
-  // Function to extract potential topics from content
-  const extractTopics = (text: string): string[] => {
-    // For a basic implementation, we'll identify capitalized terms that are likely to be topics
-    // More sophisticated NLP could be integrated for better topic identification
-    const potentialTopics = text.match(/\b[A-Z][a-z]{2,}\b/g) || [];
-    
-    // Filter out common words and duplicates
-    const commonWords = ['The', 'This', 'That', 'These', 'Those', 'They', 'Their', 'When', 'Where', 'What', 'Why', 'How'];
-    const uniqueTopics = [...new Set(potentialTopics)].filter(
-      topic => !commonWords.includes(topic)
-    );
-    
-    return uniqueTopics;
-  };
-  
-  // Extract topics from content
-  const topics = useMemo(() => extractTopics(content), [content]);
+  // The topics found in the content, or its capitalized words until they have been found
+  const topics = useMemo(() => getTopicSpans(content, topicSpans), [content, topicSpans]);
   
   // Toggle expanded state
   const toggleExpand = useCallback(() => {
@@ -138,7 +170,16 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
       const response = await nodeApi.updateNodeContent(canvasId, id, editedContent);
       
       if (response.success && response.data && onNodeUpdated) {
-        onNodeUpdated(id, response.data.node);
+        const { node } = response.data;
+        // Hand-written content replaces any placeholder, so the node is no longer degraded
+        onNodeUpdated(id, {
+          content: node.content,
+          isEdited: node.isEdited,
+          originalContent: node.originalContent,
+          lastEditedAt: node.lastEditedAt,
+          degraded: false,
+          fallbackReason: undefined
+        });
         logger.info('Node content updated successfully', { nodeId: id });
       }
       
@@ -190,6 +231,24 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
     }
   };
 
+  // Include an attachment in the context of follow-ups and topics below this node, or leave it out
+  const handleToggleAttachmentContext = async (attachmentIndex: number) => {
+    try {
+      const includeInContext = attachments[attachmentIndex].includeInContext === false;
+      const response = await nodeApi.updateAttachment(canvasId, id, attachmentIndex, includeInContext);
+      
+      if (response.success && onNodeUpdated) {
+        const newAttachments = attachments.map((attachment, index) => 
+          index === attachmentIndex ? { ...attachment, includeInContext } : attachment
+        );
+        onNodeUpdated(id, { attachments: newAttachments });
+        logger.info('Attachment context toggled', { nodeId: id, attachmentIndex, includeInContext });
+      }
+    } catch (error) {
+      logger.error('Error updating attachment', error);
+    }
+  };
+
   // Add source
   const handleAddSource = async () => {
     try {
@@ -248,36 +307,85 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
     }
   };
   
-  // Function to render content with topic highlighting
-  const renderContentWithTopics = (content: string, topics: string[], onTopicClick?: (topic: string, nodeId: string) => void, nodeId?: string): React.ReactNode => {
-    if (!topics || topics.length === 0 || !content) {
-      return content;
+  // Render part of the content, starting at offset within it, with its topics highlighted
+  const renderContentWithTopics = (text: string, offset = 0): React.ReactNode => {
+    if (topics.length === 0 || !text) {
+      return text;
     }
 
-    // Create a regex pattern to match all topics (case insensitive)
-    const topicPattern = new RegExp(`\\b(${topics.join('|')})\\b`, 'gi');
-    
-    // Split the content based on topic matches
-    const parts = content.split(topicPattern);
-    
-    // Create React elements with spans for topics
-    return parts.map((part, index) => {
-      // Check if this part is a topic (case insensitive match)
-      const isTopic = topics.some(topic => topic.toLowerCase() === part.toLowerCase());
-      
-      if (isTopic && onTopicClick && nodeId) {
+    return splitByTopics(text, topics, offset).map((segment, index) => {
+      if (segment.topic && onTopicClick) {
+        const topic = segment.topic;
         return (
           <span 
             key={index}
             className="topic-term"
-            onClick={() => onTopicClick(part, nodeId)}
+            onClick={() => handleTopicClick(topic)}
           >
-            {part}
+            {segment.text}
           </span>
         );
       }
       
-      return part;
+      return segment.text;
+    });
+  };
+
+  // The cited document, when it is one of this node's own sources or attachments
+  const highlighted = citations.find(citation => citation.number === highlightedCitation && citation.nodeId === id);
+  const isHighlighted = (kind: Citation['kind'], index: number) => highlighted?.kind === kind && highlighted.index === index;
+
+  // Highlight a cited document in the references, and among this node's sources or attachments
+  // when it is one of them
+  const handleCitationClick = (number: number) => {
+    setHighlightedCitation(number);
+    citationRefs.current[number]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+
+    const citation = citations.find(c => c.number === number);
+    if (citation?.nodeId === id) {
+      if (citation.kind === 'source') setShowSources(true);
+      else setShowAttachments(true);
+    }
+  };
+
+  // Render content with its citation markers as references to the cited documents
+  const renderContentWithCitations = (text: string): React.ReactNode => {
+    if (citations.length === 0) {
+      return renderContentWithTopics(text);
+    }
+
+    // Splitting on the marker puts the cited numbers at odd indexes. Each part's offset in the
+    // text keeps topic spans in place; a marker is its numbers in brackets.
+    let offset = 0;
+    return text.split(CITATION_MARKER).map((part, index) => {
+      const partOffset = offset;
+      offset += index % 2 === 0 ? part.length : part.length + 2;
+      
+      if (index % 2 === 0) {
+        return <span key={index}>{renderContentWithTopics(part, partOffset)}</span>;
+      }
+
+      const numbers = part.split(',').map(Number).filter(number => citations.some(c => c.number === number));
+      if (numbers.length === 0) {
+        return `[${part}]`;
+      }
+
+      return (
+        <span key={index} className="not-prose">
+          {numbers.map(number => (
+            <button
+              key={number}
+              onClick={() => handleCitationClick(number)}
+              className={`mx-0.5 rounded px-1 text-xs font-medium align-super ${
+                highlightedCitation === number ? 'bg-yellow-200 text-yellow-900' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+              }`}
+              aria-label={`Show reference ${number}`}
+            >
+              {number}
+            </button>
+          ))}
+        </span>
+      );
     });
   };
 
@@ -310,10 +418,11 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
           </div>
         </div>
         <div className="flex gap-2">
-          {/* Edit button */}
+          {/* Edit button (disabled until the answer has finished streaming) */}
           <button
             onClick={handleToggleEdit}
-            className="p-2 rounded hover:bg-gray-100 transition-colors text-gray-500"
+            disabled={isStreaming}
+            className="p-2 rounded hover:bg-gray-100 transition-colors text-gray-500 disabled:opacity-40 disabled:cursor-not-allowed"
             aria-label={isEditing ? "Cancel edit" : "Edit node"}
           >
             {isEditing ? <FiX size={20} /> : <FiEdit2 size={20} />}
@@ -341,6 +450,54 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
         </div>
       </div>
       
+      {queueStatus && <QueueIndicator status={queueStatus} onCancel={onCancel} />}
+      
+      {/* Placeholder badge, shown when this answer is fallback content rather than a real reply */}
+      {degraded && !isStreaming && (
+        <div className="mb-4 flex items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <span className="flex items-center">
+            <FiAlertTriangle size={16} className="mr-2 flex-shrink-0" />
+            <span>
+              Placeholder answer
+              {fallbackReason && ` — ${FALLBACK_REASON_LABELS[fallbackReason] || 'The AI service was unavailable'}`}
+            </span>
+          </span>
+          {onRetry && (
+            <button
+              onClick={() => onRetry(id)}
+              className="inline-flex flex-shrink-0 items-center rounded px-2 py-1 font-medium text-amber-900 hover:bg-amber-100"
+              aria-label="Retry this answer"
+            >
+              <FiRefreshCw size={14} className="mr-1" />
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+      
+      {/* Cached badge, shown when this answer was reused from an identical earlier request */}
+      {cached && !degraded && !isStreaming && (
+        <div className="mb-4 flex items-center justify-between gap-3 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-600">
+          <span className="flex items-center">
+            <FiDatabase size={16} className="mr-2 flex-shrink-0" />
+            <span>
+              Cached answer
+              {cachedAt && ` from ${new Date(cachedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`}
+            </span>
+          </span>
+          {onRegenerate && (
+            <button
+              onClick={() => onRegenerate(id)}
+              className="inline-flex flex-shrink-0 items-center rounded px-2 py-1 font-medium text-gray-700 hover:bg-gray-100"
+              aria-label="Regenerate this answer"
+            >
+              <FiRefreshCw size={14} className="mr-1" />
+              Regenerate
+            </button>
+          )}
+        </div>
+      )}
+      
       {isEditing ? (
         <div className="mb-4">
           <textarea
@@ -362,7 +519,55 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
         </div>
       ) : (
         <div className="prose prose-lg prose-indigo max-w-none mb-4 text-base break-words">
-          {renderContentWithTopics(content, topics, onTopicClick, id)}
+          {renderContentWithCitations(content)}
+          {isStreaming && (
+            <span className="streaming-cursor" aria-label="Response is still being written" />
+          )}
+          {isStreaming && !queueStatus && onCancel && (
+            <div className="not-prose mt-3 flex justify-end">
+              <button
+                onClick={onCancel}
+                className="inline-flex items-center px-3 py-1 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+                aria-label="Stop generating this answer"
+              >
+                <FiStopCircle size={14} className="mr-1" />
+                Stop
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      
+      {/* References cited by a grounded answer */}
+      {citations.length > 0 && !isEditing && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-2">References</div>
+          <ol className="space-y-1 text-sm">
+            {citations.map(citation => (
+              <li
+                key={citation.number}
+                ref={element => { citationRefs.current[citation.number] = element; }}
+                className={`rounded p-2 transition-colors ${
+                  highlightedCitation === citation.number ? 'bg-yellow-100 ring-1 ring-yellow-300' : 'bg-gray-50'
+                }`}
+              >
+                <span className="font-medium mr-1">[{citation.number}]</span>
+                {citation.url ? (
+                  <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline break-words">
+                    {citation.title}
+                  </a>
+                ) : (
+                  <span className="break-words">{citation.title}</span>
+                )}
+                <span className="ml-1 text-xs text-gray-500">
+                  ({citation.kind}{citation.nodeId === id ? ' on this node' : ' on an earlier node'})
+                </span>
+                {citation.kind === 'attachment' && (
+                  <p className="mt-1 text-xs text-gray-600 whitespace-pre-wrap break-words">{citation.excerpt}</p>
+                )}
+              </li>
+            ))}
+          </ol>
         </div>
       )}
       
@@ -379,7 +584,12 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
         {showAttachments && (
           <div className="mt-3 space-y-2">
             {attachments.map((attachment, index) => (
-              <div key={index} className="flex items-center justify-between text-sm bg-gray-50 p-2 rounded">
+              <div 
+                key={index} 
+                className={`flex items-center justify-between text-sm p-2 rounded ${
+                  isHighlighted('attachment', index) ? 'bg-yellow-100 ring-1 ring-yellow-300' : 'bg-gray-50'
+                }`}
+              >
                 <a 
                   href={`/api/file/${attachment.filePath}`} 
                   target="_blank" 
@@ -388,6 +598,16 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
                 >
                   {attachment.fileName}
                 </a>
+                <button
+                  onClick={() => handleToggleAttachmentContext(index)}
+                  className="flex items-center text-xs text-gray-500 hover:text-indigo-600 ml-2"
+                  title="Send this file with follow-ups and topics from here"
+                >
+                  {attachment.includeInContext === false
+                    ? <FiSquare size={14} className="mr-1" />
+                    : <FiCheckSquare size={14} className="mr-1" />}
+                  Use as context
+                </button>
                 <button
                   onClick={() => handleRemoveAttachment(index)}
                   className="text-gray-500 hover:text-red-500 ml-2"
@@ -429,7 +649,12 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
         {showSources && (
           <div className="mt-3 space-y-2">
             {sources.map((source, index) => (
-              <div key={index} className="flex items-center justify-between text-sm bg-gray-50 p-2 rounded">
+              <div 
+                key={index} 
+                className={`flex items-center justify-between text-sm p-2 rounded ${
+                  isHighlighted('source', index) ? 'bg-yellow-100 ring-1 ring-yellow-300' : 'bg-gray-50'
+                }`}
+              >
                 <div className="flex-1 truncate">
                   <span className="text-gray-700">{source.text}</span>
                   {source.url && (
@@ -480,6 +705,13 @@ const ResponseNode = ({ data, isConnectable }: NodeProps<ResponseNodeProps>) =>
         )}
       </div>
       
+      {/* Ancestor context this answer was generated from */}
+      {promptContext && (
+        <div className="mt-4 border-t border-gray-100 pt-3">
+          <ContextInspector promptContext={promptContext} />
+        </div>
+      )}
+      
       {/* Add the "Ask follow-up" button */}
       <div className="mt-5 flex justify-center">
         <button
@@ -1,19 +1,49 @@
-import { useState, useEffect } from 'react';
-import { FiChevronLeft, FiChevronRight, FiPlus, FiX, FiDownload, FiShare2, FiFileText } from 'react-icons/fi';
+import { useState, useEffect, useRef } from 'react';
+import { FiChevronLeft, FiChevronRight, FiPlus, FiX, FiDownload, FiShare2, FiFileText, FiEdit2, FiLayers, FiRefreshCw, FiClock } from 'react-icons/fi';
 import logger from '../../utils/logger';
-import { SynthesisArtifact, Summary } from '../../types';
-import { summaryApi } from '../../services/api';
+import { diffWords } from '../../utils/wordDiff';
+import { SynthesisArtifact, SynthesisRevision, Summary, SummaryStyle } from '../../types';
+import { summaryApi, synthesisApi } from '../../services/api';
+import { ARTIFACT_DRAG_TYPE } from './nodeTypes';
+
+// The summary styles users can choose from
+const SUMMARY_STYLES: { value: SummaryStyle; label: string }[] = [
+  { value: 'brief', label: 'Executive brief' },
+  { value: 'outline', label: 'Detailed outline' },
+  { value: 'questions', label: 'Open questions' }
+];
 
 interface RightSidebarProps {
   currentCanvasId?: string;
   onSynthesizeClick?: () => void;
   artifacts?: SynthesisArtifact[];
+  // Called with an artifact once its changes are saved, and with the ID of a deleted one
+  onArtifactUpdated?: (artifact: SynthesisArtifact) => void;
+  onArtifactDeleted?: (artifactId: string) => void;
+  // Places an artifact on the canvas as a synthesis node; artifacts can also be dragged there
+  onPlaceArtifact?: (artifact: SynthesisArtifact) => void;
+  // Synthesizes an artifact again with the given instructions and saves it as a new revision;
+  // aborting the signal stops the synthesis
+  onRerunArtifact?: (artifact: SynthesisArtifact, customPrompt: string, signal: AbortSignal) => Promise<void>;
 }
 
+// Every version of an artifact, oldest first, ending with its current content
+const artifactVersions = (artifact: SynthesisArtifact): SynthesisRevision[] => [
+  ...(artifact.revisions || []),
+  { content: artifact.content, customPrompt: artifact.customPrompt, createdAt: artifact.revisedAt || artifact.createdAt }
+];
+
+const versionLabel = (version: SynthesisRevision, index: number, count: number) => 
+  `${index === count - 1 ? 'Current' : `Revision ${index + 1}`} (${new Date(version.createdAt).toLocaleString()})`;
+
 const RightSidebar: React.FC<RightSidebarProps> = ({ 
   currentCanvasId, 
   onSynthesizeClick,
-  artifacts = []
+  artifacts = [],
+  onArtifactUpdated,
+  onArtifactDeleted,
+  onPlaceArtifact,
+  onRerunArtifact
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [expandedArtifactId, setExpandedArtifactId] = useState<string | null>(null);
@@ -21,6 +51,21 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
   const [summaries, setSummaries] = useState<Summary[]>([]);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>('brief');
+  const [editingArtifactId, setEditingArtifactId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editContent, setEditContent] = useState('');
+  const [isSavingArtifact, setIsSavingArtifact] = useState(false);
+  const [artifactError, setArtifactError] = useState<string | null>(null);
+  const [rerunArtifactId, setRerunArtifactId] = useState<string | null>(null);
+  const [rerunPrompt, setRerunPrompt] = useState('');
+  const [isRerunning, setIsRerunning] = useState(false);
+  // Stops the re-run in progress
+  const rerunAbortRef = useRef<AbortController | null>(null);
+  const [historyArtifactId, setHistoryArtifactId] = useState<string | null>(null);
+  // The versions being compared, as indexes into artifactVersions
+  const [compareFrom, setCompareFrom] = useState(0);
+  const [compareTo, setCompareTo] = useState(0);
 
   // Fetch summaries when canvas changes
   useEffect(() => {
@@ -55,12 +100,13 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
     setSummaryError(null);
     
     try {
-      const response = await summaryApi.generateSummary(currentCanvasId);
+      const response = await summaryApi.generateSummary(currentCanvasId, summaryStyle);
       
       if (response.success && response.data) {
         // Add the new summary to the list
-        setSummaries(prev => [...prev, response.data.summary]);
-        logger.info('Generated summary successfully');
+        const { summary } = response.data;
+        setSummaries(prev => [...prev, summary]);
+        logger.info('Generated summary successfully', { style: summaryStyle, nodeCount: summary.nodeIds?.length });
         
         // Expand the newly created summary
         setExpandedSummaryIndex(summaries.length);
@@ -99,6 +145,115 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
     }
   };
 
+  const handleEditArtifact = (artifact: SynthesisArtifact) => {
+    setRerunArtifactId(null);
+    setHistoryArtifactId(null);
+    setEditingArtifactId(artifact.id);
+    setEditTitle(artifact.title);
+    setEditContent(artifact.content);
+    setArtifactError(null);
+  };
+
+  const handleSaveArtifact = async (artifactId: string) => {
+    if (!editTitle.trim() || !editContent.trim()) {
+      setArtifactError('Title and content can\'t be empty');
+      return;
+    }
+    
+    setIsSavingArtifact(true);
+    setArtifactError(null);
+    
+    try {
+      const response = await synthesisApi.update(artifactId, { title: editTitle, content: editContent });
+      
+      if (response.success && response.data) {
+        onArtifactUpdated?.(response.data);
+        setEditingArtifactId(null);
+        logger.info('Updated artifact', { artifactId });
+      } else {
+        logger.error('Failed to update artifact', { error: response.error });
+        setArtifactError(response.error || 'Failed to save changes');
+      }
+    } catch (error) {
+      logger.error('Error updating artifact', error);
+      setArtifactError('Failed to save changes');
+    } finally {
+      setIsSavingArtifact(false);
+    }
+  };
+
+  // Start a re-run with the instructions the artifact was last synthesized with
+  const handleStartRerun = (artifact: SynthesisArtifact) => {
+    setHistoryArtifactId(null);
+    setRerunArtifactId(artifact.id);
+    setRerunPrompt(artifact.customPrompt || '');
+    setArtifactError(null);
+  };
+
+  const handleRerunArtifact = async (artifact: SynthesisArtifact) => {
+    if (!onRerunArtifact) return;
+    
+    setIsRerunning(true);
+    setArtifactError(null);
+    const controller = new AbortController();
+    rerunAbortRef.current = controller;
+    
+    try {
+      await onRerunArtifact(artifact, rerunPrompt.trim(), controller.signal);
+      setRerunArtifactId(null);
+      
+      // Show what changed, comparing the new content with the content it replaced
+      const count = (artifact.revisions?.length || 0) + 2;
+      setHistoryArtifactId(artifact.id);
+      setCompareFrom(count - 2);
+      setCompareTo(count - 1);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        logger.info('Re-run cancelled', { artifactId: artifact.id });
+        return;
+      }
+      
+      logger.error('Error re-running artifact', error);
+      setArtifactError(error instanceof Error ? error.message : 'Failed to re-run the synthesis');
+    } finally {
+      rerunAbortRef.current = null;
+      setIsRerunning(false);
+    }
+  };
+
+  // Open an artifact's history comparing its current content with the version before it
+  const toggleArtifactHistory = (artifact: SynthesisArtifact) => {
+    if (historyArtifactId === artifact.id) {
+      setHistoryArtifactId(null);
+      return;
+    }
+    
+    const count = artifactVersions(artifact).length;
+    setRerunArtifactId(null);
+    setHistoryArtifactId(artifact.id);
+    setCompareFrom(count - 2);
+    setCompareTo(count - 1);
+  };
+
+  const handleDeleteArtifact = async (artifactId: string) => {
+    try {
+      const response = await synthesisApi.delete(artifactId);
+      
+      if (response.success) {
+        onArtifactDeleted?.(artifactId);
+        logger.info('Deleted artifact', { artifactId });
+        
+        if (expandedArtifactId === artifactId) {
+          setExpandedArtifactId(null);
+        }
+      } else {
+        logger.error('Failed to delete artifact', { error: response.error });
+      }
+    } catch (error) {
+      logger.error('Error deleting artifact', error);
+    }
+  };
+
   const toggleArtifactExpand = (artifactId: string) => {
     if (expandedArtifactId === artifactId) {
       setExpandedArtifactId(null);
@@ -185,7 +340,7 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
             onClick={handleGenerateSummary}
             disabled={isGeneratingSummary || !currentCanvasId}
             className="p-2 text-gray-600 hover:text-indigo-600 disabled:opacity-50"
-            title="Generate Summary"
+            title={`Generate Summary (${SUMMARY_STYLES.find(style => style.value === summaryStyle)?.label})`}
           >
             <FiFileText size={20} />
           </button>
@@ -215,6 +370,17 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
             <FiPlus size={16} className="mr-2" />
             Synthesize Insights
           </button>
+          <select
+            value={summaryStyle}
+            onChange={(e) => setSummaryStyle(e.target.value as SummaryStyle)}
+            disabled={isGeneratingSummary}
+            className="w-full py-1.5 px-2 text-sm border border-gray-200 rounded-md text-gray-700"
+            aria-label="Summary style"
+          >
+            {SUMMARY_STYLES.map(style => (
+              <option key={style.value} value={style.value}>{style.label}</option>
+            ))}
+          </select>
           <button
             onClick={handleGenerateSummary}
             disabled={isGeneratingSummary || !currentCanvasId}
@@ -253,6 +419,11 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
                   {expandedSummaryIndex === index && (
                     <div className="px-4 py-3">
                       <p className="text-gray-700 text-sm whitespace-pre-line mb-3">{summary.content}</p>
+                      {summary.nodeIds && (
+                        <p className="text-gray-500 text-xs mb-3">
+                          Covers {summary.nodeIds.length} node{summary.nodeIds.length !== 1 ? 's' : ''}
+                        </p>
+                      )}
                       <div className="flex justify-between space-x-2">
                         <button 
                           className="text-red-600 hover:text-red-800 text-xs"
@@ -293,6 +464,12 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
                 <div 
                   className="px-4 py-3 bg-gray-50 flex justify-between items-center cursor-pointer"
                   onClick={() => toggleArtifactExpand(artifact.id)}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(ARTIFACT_DRAG_TYPE, artifact.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  title="Drag onto the canvas to place it as a node"
                 >
                   <h4 className="font-medium text-gray-800 truncate">{artifact.title}</h4>
                   <span className="text-gray-500 text-xs">
@@ -300,10 +477,139 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
                   </span>
                 </div>
                 
-                {expandedArtifactId === artifact.id && (
-                  <div className="px-4 py-3">
-                    <p className="text-gray-700 text-sm whitespace-pre-line mb-3">{artifact.content}</p>
+                {expandedArtifactId === artifact.id && editingArtifactId === artifact.id && (
+                  <div className="px-4 py-3 space-y-2">
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      className="w-full px-2 py-1 text-sm border border-gray-200 rounded-md"
+                      aria-label="Artifact title"
+                    />
+                    <textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      rows={8}
+                      className="w-full px-2 py-1 text-sm border border-gray-200 rounded-md"
+                      aria-label="Artifact content"
+                    />
+                    {artifactError && (
+                      <div className="text-red-500 text-xs">{artifactError}</div>
+                    )}
                     <div className="flex justify-end space-x-2">
+                      <button 
+                        className="text-gray-500 hover:text-gray-700 text-sm"
+                        onClick={() => setEditingArtifactId(null)}
+                        disabled={isSavingArtifact}
+                      >
+                        Cancel
+                      </button>
+                      <button 
+                        className="text-indigo-600 hover:text-indigo-800 text-sm font-medium disabled:opacity-50"
+                        onClick={() => handleSaveArtifact(artifact.id)}
+                        disabled={isSavingArtifact}
+                      >
+                        {isSavingArtifact ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                
+                {expandedArtifactId === artifact.id && editingArtifactId !== artifact.id && (
+                  <div className="px-4 py-3">
+                    {historyArtifactId === artifact.id ? (
+                      <ArtifactHistory
+                        versions={artifactVersions(artifact)}
+                        from={compareFrom}
+                        to={compareTo}
+                        onFromChange={setCompareFrom}
+                        onToChange={setCompareTo}
+                      />
+                    ) : (
+                      <p className="text-gray-700 text-sm whitespace-pre-line mb-3">{artifact.content}</p>
+                    )}
+                    {rerunArtifactId === artifact.id && (
+                      <div className="mb-3 space-y-2">
+                        <textarea
+                          value={rerunPrompt}
+                          onChange={(e) => setRerunPrompt(e.target.value)}
+                          rows={3}
+                          placeholder="Custom instructions (optional)"
+                          className="w-full px-2 py-1 text-sm border border-gray-200 rounded-md"
+                          aria-label="Re-run instructions"
+                          disabled={isRerunning}
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button 
+                            className="text-gray-500 hover:text-gray-700 text-sm"
+                            onClick={() => {
+                              // While a re-run is in progress, Cancel stops it and keeps the instructions
+                              if (isRerunning) {
+                                rerunAbortRef.current?.abort();
+                                return;
+                              }
+                              setRerunArtifactId(null);
+                            }}
+                          >
+                            Cancel
+                          </button>
+                          <button 
+                            className="text-indigo-600 hover:text-indigo-800 text-sm font-medium disabled:opacity-50"
+                            onClick={() => handleRerunArtifact(artifact)}
+                            disabled={isRerunning}
+                          >
+                            {isRerunning ? 'Re-running...' : 'Re-run'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {artifactError && rerunArtifactId === artifact.id && (
+                      <div className="text-red-500 text-xs mb-2">{artifactError}</div>
+                    )}
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <button 
+                        className="text-red-600 hover:text-red-800 text-xs mr-auto"
+                        onClick={() => handleDeleteArtifact(artifact.id)}
+                      >
+                        Delete
+                      </button>
+                      {onPlaceArtifact && (
+                        <button 
+                          className="text-indigo-600 hover:text-indigo-800 text-sm font-medium flex items-center"
+                          onClick={() => onPlaceArtifact(artifact)}
+                          title="Place on canvas"
+                        >
+                          <FiLayers size={14} className="mr-1" />
+                          Place
+                        </button>
+                      )}
+                      {onRerunArtifact && (
+                        <button 
+                          className="text-indigo-600 hover:text-indigo-800 text-sm font-medium flex items-center disabled:opacity-50"
+                          onClick={() => handleStartRerun(artifact)}
+                          disabled={isRerunning}
+                          title="Synthesize again from the same nodes"
+                        >
+                          <FiRefreshCw size={14} className="mr-1" />
+                          Re-run
+                        </button>
+                      )}
+                      {(artifact.revisions?.length || 0) > 0 && (
+                        <button 
+                          className="text-indigo-600 hover:text-indigo-800 text-sm font-medium flex items-center"
+                          onClick={() => toggleArtifactHistory(artifact)}
+                        >
+                          <FiClock size={14} className="mr-1" />
+                          {historyArtifactId === artifact.id ? 'Hide history' : `History (${artifact.revisions?.length})`}
+                        </button>
+                      )}
+                      <button 
+                        className="text-indigo-600 hover:text-indigo-800 text-sm font-medium flex items-center"
+                        onClick={() => handleEditArtifact(artifact)}
+                      >
+                        <FiEdit2 size={14} className="mr-1" />
+                        Edit
+                      </button>
                       <button 
                         className="text-indigo-600 hover:text-indigo-800 text-sm font-medium flex items-center"
                         onClick={() => handleExportArtifact(artifact)}
@@ -333,4 +639,54 @@ const RightSidebar: React.FC<RightSidebarProps> = ({
   );
 };
 
+interface ArtifactHistoryProps {
+  versions: SynthesisRevision[];
+  from: number;
+  to: number;
+  onFromChange: (index: number) => void;
+  onToChange: (index: number) => void;
+}
+
+// Two versions of an artifact with the words removed and added between them
+const ArtifactHistory: React.FC<ArtifactHistoryProps> = ({ versions, from, to, onFromChange, onToChange }) => {
+  const before = versions[from] || versions[0];
+  const after = versions[to] || versions[versions.length - 1];
+  
+  const versionSelect = (value: number, onChange: (index: number) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full py-1 px-2 text-xs border border-gray-200 rounded-md text-gray-700"
+      aria-label={label}
+    >
+      {versions.map((version, index) => (
+        <option key={index} value={index}>{versionLabel(version, index, versions.length)}</option>
+      ))}
+    </select>
+  );
+  
+  return (
+    <div className="mb-3 space-y-2">
+      {versionSelect(from, onFromChange, 'Compare from')}
+      {versionSelect(to, onToChange, 'Compare to')}
+      {(before.customPrompt || '') !== (after.customPrompt || '') && (
+        <p className="text-gray-500 text-xs">
+          Instructions changed from "{before.customPrompt || 'none'}" to "{after.customPrompt || 'none'}"
+        </p>
+      )}
+      <p className="text-gray-700 text-sm whitespace-pre-line">
+        {diffWords(before.content, after.content).map((part, index) => (
+          part.type === 'same' ? (
+            <span key={index}>{part.text}</span>
+          ) : part.type === 'removed' ? (
+            <del key={index} className="bg-red-50 text-red-700">{part.text}</del>
+          ) : (
+            <ins key={index} className="bg-emerald-50 text-emerald-800 no-underline">{part.text}</ins>
+          )
+        ))}
+      </p>
+    </div>
+  );
+};
+
 export default RightSidebar; 
\ No newline at end of file
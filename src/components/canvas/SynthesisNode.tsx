@@ -0,0 +1,129 @@
+import { useState, useCallback } from 'react';
+import { NodeProps, Handle, Position } from 'reactflow';
+import { FiAlertTriangle, FiLayers, FiMaximize, FiMinimize, FiPlus } from 'react-icons/fi';
+import logger from '../../utils/logger';
+
+// Define the SynthesisNodeData interface
+export interface SynthesisNodeData {
+  id: string;
+  // The artifact the node was placed from
+  artifactId: string;
+  title: string;
+  content: string;
+  // The nodes it was synthesized from, each joined to it by a provenance edge
+  sourceNodeIds: string[];
+  // When the synthesis was made; sources edited later make it stale
+  synthesizedAt: string;
+  isStale?: boolean;
+  onNodeHover?: (nodeId: string | null) => void;
+  onResize?: (nodeId: string, expanded: boolean) => void;
+  onCreateCustomFollowUp?: (parentId: string) => void;
+}
+
+// A synthesis artifact placed on the canvas, which follow-up questions can be asked from
+export default function SynthesisNode({ data, id }: NodeProps<SynthesisNodeData>) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isHovered, setIsHovered] = useState(false);
+
+  const {
+    title,
+    content,
+    sourceNodeIds,
+    isStale = false,
+    onNodeHover,
+    onResize,
+    onCreateCustomFollowUp
+  } = data;
+
+  // Toggle expanded state
+  const toggleExpand = useCallback(() => {
+    const newExpandedState = !isExpanded;
+    setIsExpanded(newExpandedState);
+    logger.debug('Synthesis node expand toggled', { id, expanded: newExpandedState });
+
+    if (onResize) {
+      onResize(id, newExpandedState);
+    }
+  }, [isExpanded, onResize, id]);
+
+  const handleMouseEnter = useCallback(() => {
+    setIsHovered(true);
+    if (onNodeHover) {
+      onNodeHover(id);
+    }
+  }, [onNodeHover, id]);
+
+  const handleMouseLeave = useCallback(() => {
+    setIsHovered(false);
+    if (onNodeHover) {
+      onNodeHover(null);
+    }
+  }, [onNodeHover]);
+
+  return (
+    <div
+      className={`synthesis-node ${isHovered ? 'hovered' : ''} ${isExpanded ? 'expanded' : 'collapsed'}`}
+      onMouseEnter={handleMouseEnter}
+      onMouseLeave={handleMouseLeave}
+    >
+      {/* Provenance edges from the source nodes come in on the left */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="synthesis-node-handle"
+      />
+
+      <div className="synthesis-node-header flex justify-between items-start mb-2">
+        <div>
+          <div className="flex items-center text-xs font-medium uppercase tracking-wide text-emerald-700">
+            <FiLayers size={12} className="mr-1" />
+            Synthesis of {sourceNodeIds.length} node{sourceNodeIds.length !== 1 ? 's' : ''}
+          </div>
+          <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+        </div>
+        <button
+          className="expand-button p-1 rounded-full"
+          onClick={toggleExpand}
+          aria-label={isExpanded ? 'Collapse synthesis' : 'Expand synthesis'}
+        >
+          {isExpanded ? <FiMinimize size={14} /> : <FiMaximize size={14} />}
+        </button>
+      </div>
+
+      {isStale && (
+        <div className="mb-2 flex items-center text-xs text-amber-700">
+          <FiAlertTriangle size={12} className="mr-1" />
+          Stale: a source node was edited after this synthesis
+        </div>
+      )}
+
+      <div className="synthesis-node-content">
+        {isExpanded ? (
+          <div className="text-sm text-gray-700 whitespace-pre-line">{content}</div>
+        ) : (
+          <div className="text-sm text-gray-600 italic">
+            {content.slice(0, 120)}{content.length > 120 ? '...' : ''}
+          </div>
+        )}
+      </div>
+
+      {onCreateCustomFollowUp && (
+        <div className="mt-3 flex justify-center">
+          <button
+            onClick={() => onCreateCustomFollowUp(id)}
+            className="inline-flex items-center px-4 py-2 text-sm bg-emerald-600 text-white rounded-full shadow-sm hover:bg-emerald-700"
+          >
+            <FiPlus size={16} className="mr-2" />
+            <span>Ask follow-up</span>
+          </button>
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="synthesis-node-handle"
+      />
+    </div>
+  );
+}
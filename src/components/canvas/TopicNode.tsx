@@ -1,15 +1,25 @@
 import React, { useState, useCallback } from 'react';
 import { NodeProps, Handle, Position } from 'reactflow';
-import { FiMaximize, FiMinimize } from 'react-icons/fi';
+import { FiAlertTriangle, FiDatabase, FiMaximize, FiMinimize, FiRefreshCw, FiStopCircle } from 'react-icons/fi';
 import logger from '../../utils/logger';
+import { PromptContext, QueueStatus } from '../../types';
+import QueueIndicator from './QueueIndicator';
+import ContextInspector from './ContextInspector';
 
 // Define the TopicNodeData interface
 export interface TopicNodeData {
   id: string;
   topic: string;
   explanation: string;
+  isStreaming?: boolean;
+  queueStatus?: QueueStatus;
+  degraded?: boolean;
+  cached?: boolean;
+  promptContext?: PromptContext;
   onNodeHover?: (nodeId: string | null) => void;
   onResize?: (nodeId: string, expanded: boolean) => void;
+  onCancel?: () => void;
+  onRegenerate?: (nodeId: string) => void;
 }
 
 // The TopicNode component
@@ -17,7 +27,19 @@ export default function TopicNode({ data, id }: NodeProps<TopicNodeData>) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   
-  const { topic, explanation, onNodeHover, onResize } = data;
+  const { 
+    topic, 
+    explanation, 
+    isStreaming = false, 
+    queueStatus, 
+    degraded = false, 
+    cached = false, 
+    promptContext, 
+    onNodeHover, 
+    onResize, 
+    onCancel, 
+    onRegenerate 
+  } = data;
   
   // Toggle expanded state
   const toggleExpand = useCallback(() => {
@@ -74,10 +96,57 @@ export default function TopicNode({ data, id }: NodeProps<TopicNodeData>) {
         </button>
       </div>
       
+      {queueStatus && <QueueIndicator status={queueStatus} onCancel={onCancel} />}
+      
+      {/* Placeholder explanations are flagged so they aren't mistaken for real ones */}
+      {degraded && !isStreaming && (
+        <div className="mb-2 flex items-center text-xs text-amber-700">
+          <FiAlertTriangle size={12} className="mr-1" />
+          Placeholder explanation
+        </div>
+      )}
+      
+      {cached && !degraded && !isStreaming && (
+        <div className="mb-2 flex items-center justify-between text-xs text-gray-500">
+          <span className="flex items-center">
+            <FiDatabase size={12} className="mr-1" />
+            Cached explanation
+          </span>
+          {onRegenerate && (
+            <button
+              onClick={() => onRegenerate(id)}
+              className="flex items-center rounded px-1 text-gray-600 hover:bg-indigo-100"
+              aria-label="Regenerate this explanation"
+            >
+              <FiRefreshCw size={12} className="mr-1" />
+              Regenerate
+            </button>
+          )}
+        </div>
+      )}
+      
       <div className="topic-node-content">
-        {isExpanded ? (
+        {isExpanded || isStreaming ? (
           <div className="full-content text-sm text-gray-700">
             {explanation}
+            {isStreaming && (
+              <span className="streaming-cursor" aria-label="Explanation is still being written" />
+            )}
+            {isStreaming && !queueStatus && onCancel && (
+              <button
+                onClick={onCancel}
+                className="mt-2 flex items-center text-xs text-gray-500 hover:text-gray-700"
+                aria-label="Stop generating this explanation"
+              >
+                <FiStopCircle size={12} className="mr-1" />
+                Stop
+              </button>
+            )}
+            {promptContext && !isStreaming && (
+              <div className="mt-2">
+                <ContextInspector promptContext={promptContext} compact />
+              </div>
+            )}
           </div>
         ) : (
           <div className="truncated-content text-sm text-gray-600 italic">
@@ -1,6 +1,8 @@
 import ResponseNode from './ResponseNode';
 import FollowUpNode from './FollowUpNode';
 import TopicNode from './TopicNode';
+import SynthesisNode from './SynthesisNode';
+import ProvenanceEdge from './ProvenanceEdge';
 import { NodeTypes, EdgeTypes } from 'reactflow';
 
 // Define nodeTypes as a singleton
@@ -8,7 +10,17 @@ export const nodeTypes: NodeTypes = {
   response: ResponseNode,
   followUp: FollowUpNode,
   topic: TopicNode,
+  synthesis: SynthesisNode,
 } as const;
 
 // Define edgeTypes as a singleton
-export const edgeTypes: EdgeTypes = {} as const; 
\ No newline at end of file
+export const edgeTypes: EdgeTypes = {
+  provenance: ProvenanceEdge,
+} as const;
+
+// Provenance edges join a synthesis to its sources; they aren't parent-child links, so
+// paths to the root and child checks skip them
+export const isProvenanceEdge = (edge: { type?: string }) => edge.type === 'provenance';
+
+// Drag data type of a synthesis artifact dragged from the sidebar onto the canvas
+export const ARTIFACT_DRAG_TYPE = 'application/x-mindmap-artifact';
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { authApi } from '../../services/api';
 import logger from '../../utils/logger';
 
 interface MainLayoutProps {
@@ -11,10 +12,13 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, showNav = true }) =>
   const location = useLocation();
   const navigate = useNavigate();
   
-  const handleLogout = () => {
-    logger.info('User logged out (simulated)');
-    // In a real app, we would call an API to log out
-    // For now, just redirect to the auth page
+  const handleLogout = async () => {
+    try {
+      await authApi.logout();
+      logger.info('User logged out');
+    } catch (error) {
+      logger.error('Failed to log out', error);
+    }
     navigate('/auth');
   };
   
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { FiRefreshCw, FiX } from 'react-icons/fi';
+import { usageApi } from '../../services/api';
+import { UsagePeriod, UsageSummary } from '../../types';
+import logger from '../../utils/logger';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatResetTime = (resetAt: string) => new Date(resetAt).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short'
+});
+
+// Tokens used in one quota period, with a bar towards the limit when there is one
+const PeriodUsage: React.FC<{ label: string; usage: UsagePeriod }> = ({ label, usage }) => {
+  const percentUsed = usage.limit ? Math.min((usage.totalTokens / usage.limit) * 100, 100) : 0;
+  const isExhausted = usage.limit !== null && usage.totalTokens >= usage.limit;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span className={isExhausted ? 'text-red-600' : 'text-gray-600'}>
+          {formatTokens(usage.totalTokens)}
+          {usage.limit !== null ? ` / ${formatTokens(usage.limit)}` : ''} tokens
+        </span>
+      </div>
+      {usage.limit !== null && (
+        <div className="h-2 bg-gray-100 rounded-full mt-1 overflow-hidden">
+          <div
+            className={`h-full rounded-full ${isExhausted ? 'bg-red-500' : 'bg-indigo-500'}`}
+            style={{ width: `${percentUsed}%` }}
+          />
+        </div>
+      )}
+      <div className="text-xs text-gray-500 mt-1">
+        {usage.requests} requests ({formatTokens(usage.inputTokens)} in, {formatTokens(usage.outputTokens)} out)
+        {usage.limit !== null && ` · resets ${formatResetTime(usage.resetAt)}`}
+      </div>
+      {isExhausted && (
+        <div className="text-xs text-red-600 mt-1">
+          Quota reached. New answers are unavailable until it resets.
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The signed-in user's token usage: daily and monthly totals against their quotas,
+// and this month's usage per canvas
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await usageApi.get();
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'API returned unsuccessful response');
+      }
+
+      setUsage(response.data);
+    } catch (loadError) {
+      logger.error('Error loading usage', loadError);
+      setError('Usage could not be loaded. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  return (
+    <div className="absolute top-full right-4 mt-2 w-96 bg-white p-4 rounded-lg shadow-lg border border-indigo-200 z-20">
+      <div className="flex justify-between items-center mb-4">
+        <span className="font-medium text-gray-800">Token usage</span>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={loadUsage}
+            disabled={isLoading}
+            className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            aria-label="Refresh usage"
+          >
+            <FiRefreshCw size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label="Close usage"
+          >
+            <FiX size={18} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {!usage && isLoading && <div className="text-sm text-gray-500">Loading...</div>}
+
+      {usage && (
+        <>
+          <div className="space-y-4">
+            <PeriodUsage label="Today" usage={usage.daily} />
+            <PeriodUsage label="This month" usage={usage.monthly} />
+          </div>
+
+          <div className="mt-5">
+            <div className="text-sm font-medium text-gray-700 mb-2">By canvas this month</div>
+            {usage.canvases.length === 0 ? (
+              <div className="text-sm text-gray-500">No tokens used yet.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="font-normal pb-1">Canvas</th>
+                    <th className="font-normal pb-1 text-right">Requests</th>
+                    <th className="font-normal pb-1 text-right">Tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.canvases.map(canvas => (
+                    <tr key={canvas.canvasId || 'unsaved'} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 truncate max-w-[12rem] text-gray-700">
+                        {canvas.title || (
+                          <span className="italic text-gray-500">
+                            {canvas.canvasId ? 'Deleted canvas' : 'Before saving'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right text-gray-600">{canvas.requests}</td>
+                      <td className="py-1 text-right text-gray-600">{formatTokens(canvas.totalTokens)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
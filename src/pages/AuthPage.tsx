@@ -1,8 +1,12 @@
 import { useState } from 'react';
+import { authApi } from '../services/api';
+import { User } from '../types';
 import logger from '../utils/logger';
 
+const MIN_PASSWORD_LENGTH = 6;
+
 interface AuthPageProps {
-  onLogin: () => void;
+  onLogin: (user: User) => void;
 }
 
 const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
@@ -10,23 +14,43 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
   const [password, setPassword] = useState('');
   const [isLogin, setIsLogin] = useState(true);
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Basic validation
-    if (!username || !password) {
+    if (!username.trim() || !password) {
       setError('Please enter both username and password');
       return;
     }
     
-    // For development, always succeed
+    if (!isLogin && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    
     logger.info('Authentication form submitted', { username, isLogin });
+    setError('');
+    setIsSubmitting(true);
     
-    // Simulate API call delay
-    setTimeout(() => {
-      onLogin();
-    }, 500);
+    try {
+      const response = isLogin 
+        ? await authApi.login(username.trim(), password)
+        : await authApi.register(username.trim(), password);
+      
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Authentication failed');
+      }
+      
+      logger.info('Authentication succeeded', { userId: response.data.user.id });
+      onLogin(response.data.user);
+    } catch (err) {
+      logger.error('Authentication failed', err, { username, isLogin });
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -79,7 +103,10 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
               <button
                 type="button"
                 className="font-medium text-indigo-600 hover:text-indigo-500"
-                onClick={() => setIsLogin(!isLogin)}
+                onClick={() => {
+                  setIsLogin(!isLogin);
+                  setError('');
+                }}
               >
                 {isLogin ? 'Need an account? Sign up' : 'Already have an account? Sign in'}
               </button>
@@ -89,9 +116,10 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
           <div>
             <button
               type="submit"
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              {isLogin ? 'Sign in' : 'Sign up'}
+              {isSubmitting ? 'Please wait...' : isLogin ? 'Sign in' : 'Sign up'}
             </button>
           </div>
         </form>
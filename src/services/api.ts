@@ -1,13 +1,45 @@
 import logger from '../utils/logger';
 import axios from 'axios';
-import { ApiResponse, ClaudeResponse, SynthesisArtifact } from '../types';
+import { ApiResponse, Attachment, Canvas, ClaudeRequestOptions, ClaudeResponse, ConversationTurn, GenerationSettings, MindMapEdge, MindMapNode, QueueStatus, Summary, SummaryStyle, SynthesisArtifact, TopicExplanation, TopicExtraction, UsageSummary, User } from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
 
+// Called whenever the server rejects a request because the session is missing or expired
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Register a callback for 401 responses (e.g. to send the user back to the sign-in page)
+ */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+const notifyUnauthorized = () => {
+  if (unauthorizedHandler) {
+    unauthorizedHandler();
+  }
+};
+
 /**
  * Base API service for making HTTP requests to the backend
  */
 class ApiService {
+  /**
+   * Parse a response, turning error statuses into thrown errors
+   */
+  private async handleResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      if (response.status === 401) {
+        notifyUnauthorized();
+      }
+      
+      const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+      throw new Error(error.error || error.message || `API error: ${response.status}`);
+    }
+    
+    return await response.json();
+  }
+  
   /**
    * Make a GET request to the API
    */
@@ -17,17 +49,13 @@ class ApiService {
       
       const response = await fetch(`${API_URL}${endpoint}`, {
         method: 'GET',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
       });
       
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(error.message || `API error: ${response.status}`);
-      }
-      
-      return await response.json();
+      return await this.handleResponse<T>(response);
     } catch (error) {
       logger.error('GET request failed', error, { endpoint });
       throw error;
@@ -35,28 +63,25 @@ class ApiService {
   }
   
   /**
-   * Make a POST request to the API
+   * Make a POST request to the API. Request bodies are never logged, since they include
+   * passwords when signing in.
    */
   async post<T>(endpoint: string, data: any): Promise<T> {
     try {
-      logger.info('Making POST request', { endpoint, data });
+      logger.info('Making POST request', { endpoint });
       
       const response = await fetch(`${API_URL}${endpoint}`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(data),
       });
       
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(error.message || `API error: ${response.status}`);
-      }
-      
-      return await response.json();
+      return await this.handleResponse<T>(response);
     } catch (error) {
-      logger.error('POST request failed', error, { endpoint, data });
+      logger.error('POST request failed', error, { endpoint });
       throw error;
     }
   }
@@ -66,24 +91,20 @@ class ApiService {
    */
   async put<T>(endpoint: string, data: any): Promise<T> {
     try {
-      logger.info('Making PUT request', { endpoint, data });
+      logger.info('Making PUT request', { endpoint });
       
       const response = await fetch(`${API_URL}${endpoint}`, {
         method: 'PUT',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(data),
       });
       
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(error.message || `API error: ${response.status}`);
-      }
-      
-      return await response.json();
+      return await this.handleResponse<T>(response);
     } catch (error) {
-      logger.error('PUT request failed', error, { endpoint, data });
+      logger.error('PUT request failed', error, { endpoint });
       throw error;
     }
   }
@@ -97,17 +118,13 @@ class ApiService {
       
       const response = await fetch(`${API_URL}${endpoint}`, {
         method: 'DELETE',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
         },
       });
       
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(error.message || `API error: ${response.status}`);
-      }
-      
-      return await response.json();
+      return await this.handleResponse<T>(response);
     } catch (error) {
       logger.error('DELETE request failed', error, { endpoint });
       throw error;
@@ -118,36 +135,197 @@ class ApiService {
 // Canvas API endpoints
 export const canvasApi = {
   // Get all canvases
-  getAll: () => api.get<{ canvases: any[] }>('/canvas'),
+  getAll: () => api.get<ApiResponse<Canvas[]>>('/api/canvas'),
   
   // Get a specific canvas by ID
-  getById: (id: string) => api.get<{ canvas: any }>(`/canvas/${id}`),
+  getById: (id: string) => api.get<ApiResponse<Canvas>>(`/api/canvas/${id}`),
   
   // Create a new canvas
-  create: (data: { title: string, initialQuery: string }) => 
-    api.post<{ canvas: any }>('/canvas', data),
+  create: (data: { title: string, initialQuery: string, nodes?: MindMapNode[], edges?: MindMapEdge[], generationSettings?: GenerationSettings }) => 
+    api.post<ApiResponse<Canvas>>('/api/canvas', data),
   
   // Update a canvas
-  update: (id: string, data: any) => 
-    api.put<{ canvas: any }>(`/canvas/${id}`, data),
+  update: (id: string, data: { title?: string, nodes?: MindMapNode[], edges?: MindMapEdge[], generationSettings?: GenerationSettings }) => 
+    api.put<ApiResponse<Canvas>>(`/api/canvas/${id}`, data),
   
   // Delete a canvas
   delete: (id: string) => 
-    api.delete<{ success: boolean }>(`/canvas/${id}`),
+    api.delete<ApiResponse<void>>(`/api/canvas/${id}`),
 };
 
 // API client configuration
 const apiClient = axios.create({
   baseURL: API_URL,
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+apiClient.interceptors.response.use(
+  response => response,
+  error => {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      notifyUnauthorized();
+    }
+    return Promise.reject(error);
+  }
+);
+
+// Auth API endpoints
+export const authApi = {
+  // Create an account and start a session
+  register: (username: string, password: string) => 
+    api.post<ApiResponse<{ user: User }>>('/api/auth/register', { username, password }),
+  
+  // Sign in with username and password
+  login: (username: string, password: string) => 
+    api.post<ApiResponse<{ user: User }>>('/api/auth/login', { username, password }),
+  
+  // End the current session
+  logout: () => 
+    api.post<ApiResponse<void>>('/api/auth/logout', {}),
+  
+  // Get the signed-in user
+  me: () => api.get<ApiResponse<{ user: User }>>('/api/auth/me'),
+};
+
+// Usage API endpoints
+export const usageApi = {
+  // Get the signed-in user's token usage and quotas
+  get: () => api.get<ApiResponse<UsageSummary>>('/api/usage'),
+};
+
+// Synthesis artifact API endpoints
+export const synthesisApi = {
+  // Get a canvas's artifacts, newest first
+  getByCanvas: (canvasId: string) => 
+    api.get<ApiResponse<SynthesisArtifact[]>>(`/api/synthesis/mindmap/${canvasId}`),
+  
+  // Save a synthesis result as an artifact
+  create: (data: { title: string, content: string, mindmapId: string, selectedNodes: string[], customPrompt?: string }) => 
+    api.post<ApiResponse<SynthesisArtifact>>('/api/synthesis', data),
+  
+  // Rename or edit an artifact
+  update: (id: string, data: { title?: string, content?: string }) => 
+    api.put<ApiResponse<SynthesisArtifact>>(`/api/synthesis/${id}`, data),
+  
+  // Replace an artifact's content with the result of re-running it, keeping the old content as a revision
+  addRevision: (id: string, data: { content: string, customPrompt?: string }) => 
+    api.post<ApiResponse<SynthesisArtifact>>(`/api/synthesis/${id}/revisions`, data),
+  
+  // Delete an artifact
+  delete: (id: string) => 
+    api.delete<ApiResponse<void>>(`/api/synthesis/${id}`),
+};
+
+// Callbacks for streamed Claude responses
+export interface StreamHandlers {
+  // Called with each chunk of answer text as it arrives
+  onText?: (text: string) => void;
+  // Called once the follow-up questions at the end of the reply are complete
+  onFollowUps?: (followUpQuestions: string[]) => void;
+  // Called while the request waits in the server's queue, and with null once it starts
+  onQueued?: (status: QueueStatus | null) => void;
+  // Aborting cancels the request, taking it out of the queue if it is still waiting
+  signal?: AbortSignal;
+}
+
+/**
+ * POST to a streaming endpoint and relay its Server-Sent Events to the handlers.
+ * Resolves with the payload of the final `done` event.
+ */
+const streamRequest = async <T>(endpoint: string, body: unknown, handlers: StreamHandlers): Promise<T> => {
+  logger.info('Opening response stream', { endpoint });
+  
+  const response = await fetch(`${API_URL}${endpoint}`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+    signal: handlers.signal,
+  });
+  
+  if (!response.ok || !response.body) {
+    if (response.status === 401) {
+      notifyUnauthorized();
+    }
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.error || error.message || `API error: ${response.status}`);
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: T | undefined;
+  
+  const handleEvent = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    
+    rawEvent.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        event = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice('data:'.length).trim());
+      }
+    });
+    
+    if (dataLines.length === 0) {
+      return;
+    }
+    
+    const data = JSON.parse(dataLines.join('\n'));
+    
+    switch (event) {
+      case 'delta':
+        handlers.onText?.(data.text);
+        break;
+      case 'followUps':
+        handlers.onFollowUps?.(data.followUpQuestions);
+        break;
+      case 'queued':
+        handlers.onQueued?.(data.position > 0 ? data : null);
+        break;
+      case 'done':
+        result = data;
+        break;
+      case 'error':
+        throw new Error(data.error || 'Stream failed');
+    }
+  };
+  
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    
+    buffer += decoder.decode(value, { stream: true });
+    
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      handleEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  
+  if (result === undefined) {
+    throw new Error('Response stream ended before the reply was complete');
+  }
+  
+  logger.info('Response stream completed', { endpoint });
+  return result;
+};
+
 // Claude API service
 export const claudeApi = {
   // Process initial query
-  async processQuery(query: string): Promise<ApiResponse<ClaudeResponse>> {
+  async processQuery(query: string, { settings, canvasId, signal, bypassCache }: ClaudeRequestOptions = {}): Promise<ApiResponse<ClaudeResponse>> {
     try {
       logger.info('Sending request to Claude API:', {
         endpoint: '/api/claude/query',
@@ -155,7 +333,7 @@ export const claudeApi = {
         baseURL: axios.defaults.baseURL || 'Not set'
       });
       
-      const response = await apiClient.post('/api/claude/query', { query });
+      const response = await apiClient.post('/api/claude/query', { query, settings, canvasId, bypassCache }, { signal });
       
       if (response.status !== 200) {
         throw new Error(`API returned status code ${response.status}`);
@@ -168,9 +346,15 @@ export const claudeApi = {
       
       return {
         success: true,
-        data: response.data
+        data: response.data,
+        degraded: response.data.degraded,
+        fallbackReason: response.data.fallbackReason
       };
     } catch (error) {
+      // Cancellation is the caller's own doing, so it is passed on rather than reported as a failure
+      if (axios.isCancel(error)) {
+        throw error;
+      }
       logger.error('API Error processing query:', error);
       if (error instanceof Error && error.message === 'Network Error') {
         logger.error('Network error details:', {
@@ -187,12 +371,16 @@ export const claudeApi = {
   },
 
   // Process follow-up query
-  async processFollowUp(query: string, context: string[]) {
+  async processFollowUp(query: string, context: ConversationTurn[], { settings, canvasId, signal, bypassCache, documents }: ClaudeRequestOptions = {}) {
     try {
-      const response = await axios.post(`${API_URL}/api/claude/followup`, {
+      const response = await apiClient.post('/api/claude/follow-up', {
         query,
-        context
-      });
+        context,
+        settings,
+        canvasId,
+        bypassCache,
+        documents
+      }, { signal });
 
       if (!response.data.success) {
         console.error('API error:', response.data.error);
@@ -201,17 +389,27 @@ export const claudeApi = {
 
       return response.data.data;
     } catch (error) {
+      if (axios.isCancel(error)) {
+        throw error;
+      }
       console.error('Error in processFollowUp:', error);
       throw new Error('Failed to process follow-up query. Please try again.');
     }
   },
 
   // Synthesize insights
-  async synthesize(contexts: string[], customPrompt?: string): Promise<ApiResponse<SynthesisArtifact>> {
+  async synthesize(
+    contexts: ConversationTurn[], 
+    customPrompt?: string, 
+    { settings, canvasId, signal, bypassCache }: ClaudeRequestOptions = {}
+  ): Promise<ApiResponse<Pick<SynthesisArtifact, 'title' | 'content'>>> {
     try {
-      const response = await apiClient.post('/api/claude/synthesize', { contexts, customPrompt });
-      return response.data;
+      const response = await apiClient.post('/api/claude/synthesize', { contexts, customPrompt, settings, canvasId, bypassCache }, { signal });
+      return { success: true, data: response.data };
     } catch (error) {
+      if (axios.isCancel(error)) {
+        throw error;
+      }
       console.error('API Error synthesizing insights:', error);
       return {
         success: false,
@@ -221,12 +419,15 @@ export const claudeApi = {
   },
 
   // Process topic explanation
-  async processTopic(topic: string, context: string[]) {
+  async processTopic(topic: string, context: ConversationTurn[], { settings, canvasId, signal, bypassCache }: ClaudeRequestOptions = {}) {
     try {
-      const response = await axios.post(`${API_URL}/api/claude/topic`, {
+      const response = await apiClient.post('/api/claude/topic', {
         topic,
-        context
-      });
+        context,
+        settings,
+        canvasId,
+        bypassCache
+      }, { signal });
 
       if (!response.data.success) {
         console.error('API error:', response.data.error);
@@ -235,10 +436,35 @@ export const claudeApi = {
 
       return response.data.data;
     } catch (error) {
+      if (axios.isCancel(error)) {
+        throw error;
+      }
       console.error('Error in processTopic:', error);
       throw new Error('Failed to process topic. Please try again.');
     }
   },
+
+  // Find the key concepts of a node's text as character spans
+  async extractTopics(text: string, { settings, canvasId, signal, bypassCache }: ClaudeRequestOptions = {}): Promise<TopicExtraction> {
+    const response = await apiClient.post('/api/claude/topics', { text, settings, canvasId, bypassCache }, { signal });
+    return response.data;
+  },
+};
+
+// Streaming variants of the Claude endpoints; text is delivered through the handlers as it arrives.
+// Each takes the canvas's generation settings and ID, if it has them, and whether to bypass the cache.
+export const claudeStreamApi = {
+  // Stream the answer to an initial query
+  streamQuery: (query: string, handlers: StreamHandlers, { settings, canvasId, bypassCache }: ClaudeRequestOptions = {}) => 
+    streamRequest<ClaudeResponse>('/api/claude/query/stream', { query, settings, canvasId, bypassCache }, handlers),
+  
+  // Stream the answer to a follow-up question
+  streamFollowUp: (query: string, context: ConversationTurn[], handlers: StreamHandlers, { settings, canvasId, bypassCache, documents }: ClaudeRequestOptions = {}) => 
+    streamRequest<ClaudeResponse>('/api/claude/follow-up/stream', { query, context, settings, canvasId, bypassCache, documents }, handlers),
+  
+  // Stream a topic explanation
+  streamTopic: (topic: string, context: ConversationTurn[], handlers: StreamHandlers, { settings, canvasId, bypassCache }: ClaudeRequestOptions = {}) => 
+    streamRequest<TopicExplanation>('/api/claude/topic/stream', { topic, context, settings, canvasId, bypassCache }, handlers),
 };
 
 // Node API service
@@ -246,7 +472,7 @@ export const nodeApi = {
   // Update node content
   async updateNodeContent(canvasId: string, nodeId: string, content: string): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.put(`/node/canvas/${canvasId}/node/${nodeId}/content`, { content });
+      const response = await apiClient.put(`/api/node/canvas/${canvasId}/node/${nodeId}/content`, { content });
       return response.data;
     } catch (error) {
       console.error('API Error updating node content:', error);
@@ -260,8 +486,8 @@ export const nodeApi = {
   // Add attachment to node
   async addAttachment(canvasId: string, nodeId: string, formData: FormData): Promise<ApiResponse<any>> {
     try {
-      const response = await axios.post(
-        `${API_URL}/node/canvas/${canvasId}/node/${nodeId}/attachment`,
+      const response = await apiClient.post(
+        `/api/node/canvas/${canvasId}/node/${nodeId}/attachment`,
         formData,
         {
           headers: {
@@ -279,10 +505,27 @@ export const nodeApi = {
     }
   },
 
+  // Turn an attachment's use as model context on or off
+  async updateAttachment(canvasId: string, nodeId: string, attachmentIndex: number, includeInContext: boolean): Promise<ApiResponse<{ attachment: Attachment }>> {
+    try {
+      const response = await apiClient.patch(
+        `/api/node/canvas/${canvasId}/node/${nodeId}/attachment/${attachmentIndex}`,
+        { includeInContext }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('API Error updating attachment:', error);
+      return {
+        success: false,
+        error: 'Failed to update attachment. Please try again.',
+      };
+    }
+  },
+
   // Remove attachment from node
   async removeAttachment(canvasId: string, nodeId: string, attachmentIndex: number): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.delete(`/node/canvas/${canvasId}/node/${nodeId}/attachment/${attachmentIndex}`);
+      const response = await apiClient.delete(`/api/node/canvas/${canvasId}/node/${nodeId}/attachment/${attachmentIndex}`);
       return response.data;
     } catch (error) {
       console.error('API Error removing attachment:', error);
@@ -296,7 +539,7 @@ export const nodeApi = {
   // Add source to node
   async addSource(canvasId: string, nodeId: string, source: { text: string, url?: string }): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.post(`/node/canvas/${canvasId}/node/${nodeId}/source`, source);
+      const response = await apiClient.post(`/api/node/canvas/${canvasId}/node/${nodeId}/source`, source);
       return response.data;
     } catch (error) {
       console.error('API Error adding source:', error);
@@ -310,7 +553,7 @@ export const nodeApi = {
   // Remove source from node
   async removeSource(canvasId: string, nodeId: string, sourceIndex: number): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.delete(`/node/canvas/${canvasId}/node/${nodeId}/source/${sourceIndex}`);
+      const response = await apiClient.delete(`/api/node/canvas/${canvasId}/node/${nodeId}/source/${sourceIndex}`);
       return response.data;
     } catch (error) {
       console.error('API Error removing source:', error);
@@ -324,16 +567,17 @@ export const nodeApi = {
 
 // Summary API service
 export const summaryApi = {
-  // Generate mind map summary
-  async generateSummary(canvasId: string): Promise<ApiResponse<any>> {
+  // Generate a mind map summary in the given style
+  async generateSummary(canvasId: string, style: SummaryStyle): Promise<ApiResponse<{ summary: Summary }>> {
     try {
-      const response = await apiClient.post(`/summary/canvas/${canvasId}/summary`);
+      const response = await apiClient.post(`/api/summary/canvas/${canvasId}/summary`, { style });
       return response.data;
     } catch (error) {
       console.error('API Error generating summary:', error);
       return {
         success: false,
-        error: 'Failed to generate summary. Please try again.',
+        // The server explains refusals such as an empty map or a used-up quota
+        error: (axios.isAxiosError(error) && error.response?.data?.error) || 'Failed to generate summary. Please try again.',
       };
     }
   },
@@ -341,7 +585,7 @@ export const summaryApi = {
   // Get all summaries for a canvas
   async getSummaries(canvasId: string): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.get(`/summary/canvas/${canvasId}/summary`);
+      const response = await apiClient.get(`/api/summary/canvas/${canvasId}/summary`);
       return response.data;
     } catch (error) {
       console.error('API Error fetching summaries:', error);
@@ -355,7 +599,7 @@ export const summaryApi = {
   // Delete a summary
   async deleteSummary(canvasId: string, summaryIndex: number): Promise<ApiResponse<any>> {
     try {
-      const response = await apiClient.delete(`/summary/canvas/${canvasId}/summary/${summaryIndex}`);
+      const response = await apiClient.delete(`/api/summary/canvas/${canvasId}/summary/${summaryIndex}`);
       return response.data;
     } catch (error) {
       console.error('API Error deleting summary:', error);
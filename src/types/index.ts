@@ -1,14 +1,19 @@
+import type { CSSProperties } from 'react';
+import type { EdgeMarker } from 'reactflow';
+
 // User type
 export interface User {
   id: string;
-  name: string;
-  email: string;
+  username: string;
+  createdAt?: string;
 }
 
 // Node types
 export enum NodeType {
   RESPONSE = 'response',
-  FOLLOW_UP = 'followUp'
+  FOLLOW_UP = 'followUp',
+  TOPIC = 'topic',
+  SYNTHESIS = 'synthesis'
 }
 
 // Attachment interface
@@ -19,6 +24,8 @@ export interface Attachment {
   filePath: string;
   fileSize: number;
   uploadedAt: string;
+  // Whether follow-ups and topics on the node and below it are sent the file; on unless set to false
+  includeInContext?: boolean;
 }
 
 // Source interface
@@ -46,14 +53,46 @@ export interface MindMapNode {
   data?: any;
 }
 
+// Edge interface (connections between nodes, as persisted with a canvas)
+export interface MindMapEdge {
+  id: string;
+  source: string;
+  target: string;
+  type?: string;
+  animated?: boolean;
+  style?: CSSProperties;
+  markerEnd?: string | EdgeMarker;
+}
+
+// Style of a canvas summary: executive brief, detailed outline or open questions
+export type SummaryStyle = 'brief' | 'outline' | 'questions';
+
 // Summary interface
 export interface Summary {
   id?: string;
   title: string;
   content: string;
+  style?: SummaryStyle;
+  // The nodes the summary covers
+  nodeIds?: string[];
   createdAt: string;
 }
 
+// Length of generated answers
+export type AnswerLength = 'brief' | 'standard' | 'detailed';
+
+// Generation settings stored on a canvas and sent with each request; unset fields use the server defaults
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  answerLength?: AnswerLength;
+  followUpCount?: number;
+  contextBudget?: number;
+  // Answer follow-ups from the sources and attachments on the path, citing them
+  grounded?: boolean;
+}
+
 // Canvas (Mind Map) interface
 export interface Canvas {
   id: string;
@@ -61,7 +100,10 @@ export interface Canvas {
   createdAt: string;
   updatedAt: string;
   initialQuery: string;
+  nodes?: MindMapNode[];
+  edges?: MindMapEdge[];
   summaries?: Summary[];
+  generationSettings?: GenerationSettings;
 }
 
 // Synthesis Artifact interface
@@ -69,12 +111,55 @@ export interface SynthesisArtifact {
   id: string;
   title: string;
   content: string;
-  canvasId: string;
+  // The canvas the artifact was synthesized from
+  mindmapId: string;
+  // The nodes it was synthesized from, and the custom instructions used, if any
+  selectedNodes: string[];
+  customPrompt?: string;
+  // Earlier versions of the content, oldest first, kept each time the artifact is re-run
+  revisions?: SynthesisRevision[];
+  // When the current content was synthesized, if it came from a re-run
+  revisedAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// An earlier version of a synthesis artifact's content
+export interface SynthesisRevision {
+  content: string;
+  customPrompt?: string;
   createdAt: string;
 }
 
+// Why the server returned fallback content instead of a real model response
+export type FallbackReason =
+  | 'missing_api_key'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'invalid_output'
+  | 'unavailable';
+
+// Set on responses that are (partly) fallback content rather than a real answer
+export interface DegradedInfo {
+  degraded?: boolean;
+  fallbackReason?: FallbackReason;
+}
+
+// Set on responses the server served from its response cache instead of generating them
+export interface CachedInfo {
+  cached?: boolean;
+  cachedAt?: string;
+}
+
+// Prompt template (name and version) used to generate a response, recorded on generated nodes
+export interface PromptTemplateRef {
+  name: string;
+  version: number;
+  source: 'default' | 'override';
+}
+
 // API response types
-export interface ApiResponse<T> {
+export interface ApiResponse<T> extends DegradedInfo {
   success: boolean;
   data?: T;
   error?: string;
@@ -86,22 +171,138 @@ export interface ClaudeQueryRequest {
   context?: string;
 }
 
+// One turn of the conversation on a node's path to the root: a question or topic asked by
+// the user, or an answer from the assistant
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  // Files shared along with the turn, read by the server: documents as text, images as images
+  attachments?: Pick<Attachment, 'fileName' | 'fileType' | 'filePath'>[];
+}
+
 export interface ClaudeFollowUpRequest {
   query: string;
-  context: string[];
+  context: ConversationTurn[];
 }
 
 export interface ClaudeSynthesisRequest {
-  contexts: string[];
+  contexts: ConversationTurn[];
   customPrompt?: string;
 }
 
-export interface ClaudeResponse {
+// A source or document attachment on the path to a node, which a grounded answer may cite.
+// index is its position among the node's sources or attachments.
+export type GroundingDocument =
+  | { kind: 'source'; nodeId: string; index: number; text: string; url?: string }
+  | { kind: 'attachment'; nodeId: string; index: number; fileName: string; fileType: string; filePath: string };
+
+// A document cited by a grounded answer, under the number its markers use
+export interface Citation {
+  number: number;
+  kind: GroundingDocument['kind'];
+  nodeId: string;
+  index: number;
+  title: string;
+  url?: string;
+  excerpt: string;
+}
+
+// Sent with Claude requests made from a canvas: its generation settings, and its ID so the
+// tokens used are counted towards it. Aborting the signal cancels the request; streamed
+// requests take theirs with the stream handlers instead. bypassCache asks for a freshly
+// generated response rather than a cached one. Follow-ups on grounded canvases send the
+// documents their answer may cite.
+export interface ClaudeRequestOptions {
+  settings?: GenerationSettings;
+  canvasId?: string;
+  signal?: AbortSignal;
+  bypassCache?: boolean;
+  documents?: GroundingDocument[];
+}
+
+// One piece of the ancestor context sent with a prompt: a recent conversation turn sent
+// verbatim (shown by an excerpt), a summary standing in for older turns, or older turns left
+// out because they could not be summarized. ancestorCount is the number of turns it covers.
+export interface ContextPart {
+  kind: 'verbatim' | 'summary' | 'omitted';
+  role?: ConversationTurn['role'];
+  ancestorCount: number;
+  tokens: number;
+  text?: string;
+  excerpt?: string;
+  attachments?: string[];
+}
+
+// The ancestor context a response was generated from, fitted into the canvas's token budget
+export interface PromptContext {
+  budget: number;
+  tokens: number;
+  parts: ContextPart[];
+}
+
+// Place of a streamed request in the server's request queue while it waits to start
+export interface QueueStatus {
+  position: number;
+  etaSeconds: number;
+}
+
+export interface ClaudeResponse extends DegradedInfo, CachedInfo {
   answer: string;
   followUpQuestions: string[];
+  promptTemplates?: PromptTemplateRef[];
+  promptContext?: PromptContext;
+  citations?: Citation[];
 }
 
-export interface ResponseData {
+// A key concept of a node's text: the characters from start up to end, which read as topic
+export interface TopicSpan {
+  topic: string;
+  start: number;
+  end: number;
+}
+
+// The key concepts found in a text, with none when it is degraded and the model couldn't be used
+export interface TopicExtraction extends DegradedInfo, CachedInfo {
+  topics: TopicSpan[];
+  promptTemplates?: PromptTemplateRef[];
+}
+
+export interface TopicExplanation extends DegradedInfo, CachedInfo {
+  explanation: string;
+  promptTemplates?: PromptTemplateRef[];
+  promptContext?: PromptContext;
+}
+
+export interface ResponseData extends DegradedInfo, CachedInfo {
   answer: string;
   followUpQuestions: string[];
-} 
\ No newline at end of file
+  promptTemplates?: PromptTemplateRef[];
+}
+
+// Tokens used within one quota period; limit and remaining are null when there is no quota
+export interface UsagePeriod {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string;
+}
+
+// Tokens used this month from one canvas; canvasId is null for requests made before a canvas
+// was saved, and title is null when the canvas no longer exists
+export interface CanvasUsage {
+  canvasId: string | null;
+  title: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+}
+
+export interface UsageSummary {
+  daily: UsagePeriod;
+  monthly: UsagePeriod;
+  canvases: CanvasUsage[];
+}
@@ -0,0 +1,87 @@
+/**
+ * Topics highlighted in node text, from the spans found by the server or, without them,
+ * from capitalized words
+ */
+
+import { TopicSpan } from '../types';
+
+// Capitalized words that are too common to be topics
+const COMMON_WORDS = ['The', 'This', 'That', 'These', 'Those', 'They', 'Their', 'When', 'Where', 'What', 'Why', 'How'];
+
+// Longest text the server picks topics out of; longer texts keep their capitalized words
+export const MAX_TOPIC_TEXT_LENGTH = 20000;
+
+export interface TopicSegment {
+  text: string;
+  // Set when the text is a topic
+  topic?: string;
+}
+
+// Treat every capitalized word as a topic, marking each place it appears in any case. Used
+// offline and for text the server hasn't picked topics out of.
+const findCapitalizedTopics = (text: string): TopicSpan[] => {
+  const words = [...new Set(text.match(/\b[A-Z][a-z]{2,}\b/g) || [])].filter(word => !COMMON_WORDS.includes(word));
+  if (words.length === 0) {
+    return [];
+  }
+
+  return [...text.matchAll(new RegExp(`\\b(${words.join('|')})\\b`, 'gi'))].map(match => ({
+    topic: match[0],
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+};
+
+/**
+ * Check whether spans found by the server still match a text
+ * @param text - The node's text
+ * @param spans - The spans found by the server, if any
+ * @returns Whether there are spans and each still covers its topic in the text
+ */
+export const hasTopicSpans = (text: string, spans?: TopicSpan[]): spans is TopicSpan[] =>
+  !!spans && spans.every(span => text.slice(span.start, span.end) === span.topic);
+
+/**
+ * The topics to highlight in a text
+ * @param text - The node's text
+ * @param spans - The spans found by the server, if any
+ * @returns The server's spans while they still match the text, or capitalized words when there
+ *   are none or the text has changed since they were found
+ */
+export const getTopicSpans = (text: string, spans?: TopicSpan[]): TopicSpan[] => {
+  if (hasTopicSpans(text, spans)) {
+    return spans;
+  }
+  return findCapitalizedTopics(text);
+};
+
+/**
+ * Split part of a text into its topics and the text between them
+ * @param text - The part of the text to split
+ * @param spans - The topics of the whole text, in text order
+ * @param offset - Where the part starts in the whole text
+ * @returns The part's segments in order; topics that cross its ends are left as plain text
+ */
+export const splitByTopics = (text: string, spans: TopicSpan[], offset = 0): TopicSegment[] => {
+  const segments: TopicSegment[] = [];
+  let position = 0;
+
+  for (const span of spans) {
+    const start = span.start - offset;
+    const end = span.end - offset;
+    if (start < position || end > text.length) {
+      continue;
+    }
+
+    if (start > position) {
+      segments.push({ text: text.slice(position, start) });
+    }
+    segments.push({ text: text.slice(start, end), topic: span.topic });
+    position = end;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) });
+  }
+  return segments;
+};
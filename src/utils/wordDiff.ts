@@ -0,0 +1,84 @@
+/**
+ * Word-level differences between two versions of a text
+ */
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Split text into words, each with the whitespace that follows it
+const tokenize = (text: string): string[] => text.match(/\s+|\S+\s*/g) || [];
+
+// Words are compared without their whitespace, so rewrapped text isn't reported as changed
+const key = (token: string) => token.trim();
+
+// Add a token to the parts, joining it to the last part when that has the same type
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Find the words removed from and added to a text, using the longest common subsequence of
+ * the two versions' words
+ * @param before - The earlier version
+ * @param after - The later version
+ * @returns The parts of both versions in order: unchanged words, words only in the earlier
+ *   version and words only in the later one
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Unchanged words at either end don't need the table
+  let start = 0;
+  while (start < a.length && start < b.length && key(a[start]) === key(b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && key(a[endA - 1]) === key(b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  // lengths[i * width + j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const rows = endA - start + 1;
+  const width = endB - start + 1;
+  const lengths = new Uint32Array(rows * width);
+  for (let i = rows - 2; i >= 0; i--) {
+    for (let j = width - 2; j >= 0; j--) {
+      lengths[i * width + j] = key(a[start + i]) === key(b[start + j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  a.slice(0, start).forEach(token => push(parts, 'same', token));
+
+  let i = 0;
+  let j = 0;
+  while (i < rows - 1 || j < width - 1) {
+    if (i < rows - 1 && j < width - 1 && key(a[start + i]) === key(b[start + j])) {
+      push(parts, 'same', b[start + j]);
+      i++;
+      j++;
+    } else if (i < rows - 1 && (j === width - 1 || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      // Removed words come before the words that replace them
+      push(parts, 'removed', a[start + i]);
+      i++;
+    } else {
+      push(parts, 'added', b[start + j]);
+      j++;
+    }
+  }
+
+  b.slice(endB).forEach(token => push(parts, 'same', token));
+  return parts;
+};